@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuthManager } from './auth.js';
+import type { SessionData, SessionEncryption } from './types.js';
+
+const SESSION: SessionData = {
+  cookies: 'laravel_session=account',
+  account: 'reader',
+  timestamp: Date.now(),
+};
+
+describe('a session that cannot be decrypted', () => {
+  let dir: string;
+  let sessionFile: string;
+  let passphrases: string[];
+
+  // Hands out the given passphrases in turn and records each request
+  const encryption = (...answers: string[]): SessionEncryption => ({
+    encrypt: false,
+    getPassphrase: async () => {
+      const answer = answers[passphrases.length] ?? answers[answers.length - 1];
+      passphrases.push(answer);
+      return answer;
+    },
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cyoa-auth-'));
+    sessionFile = path.join(dir, 'session.json');
+    passphrases = [];
+    spyOn(console, 'log').mockImplementation(() => {});
+    spyOn(console, 'warn').mockImplementation(() => {});
+
+    const owner = new AuthManager({}, null, sessionFile, encryption('right'));
+    await owner.importSession(SESSION);
+    await owner.setSessionEncrypted(true);
+    passphrases = [];
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('is not overwritten or removed for the rest of the run', async () => {
+    const stored = await fs.readFile(sessionFile, 'utf-8');
+    const auth = new AuthManager({}, null, sessionFile, encryption('wrong'));
+
+    await auth.loadSavedSession();
+    expect(auth.getCredentials().sessionCookie).toBeUndefined();
+
+    // What a run without a login would write back at the end
+    auth.updateCredentials({ sessionCookie: 'cf_clearance=anonymous' });
+    await auth.saveSession();
+    await auth.cleanupSessionFile();
+
+    expect(await fs.readFile(sessionFile, 'utf-8')).toBe(stored);
+    // The wrong passphrase was never reused to encrypt anything
+    expect(passphrases).toEqual(['wrong']);
+
+    const owner = new AuthManager({}, null, sessionFile, encryption('right'));
+    expect(await owner.readSession()).toEqual(SESSION);
+  });
+
+  test('is replaced once the user imports cookies', async () => {
+    const auth = new AuthManager(
+      {},
+      null,
+      sessionFile,
+      encryption('wrong', 'new'),
+    );
+    await auth.loadSavedSession();
+
+    const imported = { ...SESSION, cookies: 'laravel_session=imported' };
+    await auth.importSession(imported);
+
+    // Asked again rather than encrypting with the passphrase that failed
+    expect(passphrases).toEqual(['wrong', 'new']);
+    const reader = new AuthManager({}, null, sessionFile, encryption('new'));
+    expect(await reader.readSession()).toEqual(imported);
+  });
+
+  test('is replaced after the session was cleared', async () => {
+    const auth = new AuthManager(
+      {},
+      null,
+      sessionFile,
+      encryption('wrong', 'new'),
+    );
+    await auth.loadSavedSession();
+    await auth.clearSession();
+
+    auth.updateCredentials({ sessionCookie: 'laravel_session=fresh' });
+    await auth.saveSession();
+
+    const reader = new AuthManager({}, null, sessionFile, encryption('new'));
+    expect((await reader.readSession())?.cookies).toBe('laravel_session=fresh');
+  });
+});
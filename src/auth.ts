@@ -1,28 +1,67 @@
 import { existsSync, promises as fs } from 'fs';
-import os from 'os';
 import path from 'path';
-import puppeteer, { Browser, Page } from 'puppeteer';
-import type { AuthCredentials, SessionData } from './types.js';
+import puppeteer, { Browser, Page, type CookieParam } from 'puppeteer';
+import { CookieJar, fromBrowserCookie, isCookieForHost } from './cookies.js';
+import { decryptJson, encryptJson, isEncryptedData } from './encryption.js';
+import { SessionDecryptionError } from './errors.js';
+import type { ProxyRouter } from './proxy.js';
+import type {
+  AuthCredentials,
+  PasswordLoginResult,
+  SessionData,
+  SessionEncryption,
+  StoredCookie,
+} from './types.js';
 import {
   BASE_URL,
+  CONFIG_DIR,
   DEFAULT_USER_AGENT,
   ensureDirectory,
+  makeAbsoluteUrl,
+  MANUAL_CHALLENGE_TIMEOUT,
+  parseChyoaUrl,
   PUPPETEER_ARGS,
   SESSION_MAX_AGE,
 } from './utils.js';
 
+const LOGIN_USERNAME_SELECTOR =
+  'input[name="username"], input[name="email"], input[name="login"], input[type="email"]';
+const LOGIN_PASSWORD_SELECTOR = 'input[type="password"]';
+// Anything on the page a script cannot answer by itself
+const CAPTCHA_SELECTOR =
+  '.g-recaptcha, .h-captcha, .cf-turnstile, iframe[src*="recaptcha"], iframe[src*="hcaptcha"], iframe[src*="challenges.cloudflare.com"]';
+// The cookies that carry the login; the rest (Cloudflare, analytics, the
+// CSRF token) say nothing about whether it is still valid
+const AUTH_COOKIE_PATTERN = /^(laravel_session$|remember_web_)/;
+const TWO_FACTOR_SELECTOR =
+  'input[autocomplete="one-time-code"], input[name*="otp"], input[name*="two_factor"], input[name*="2fa"], input[name="code"]';
+
 export class AuthManager {
   private credentials: AuthCredentials;
   private sessionFile: string;
   private browser: Browser | null = null;
   private page: Page | null = null;
-
-  constructor(credentials: AuthCredentials) {
+  private savedCookies: StoredCookie[] = [];
+  private account: string | undefined;
+  private proxy: ProxyRouter | null;
+  private encryption: SessionEncryption | null;
+  private storedEncrypted = false;
+  private passphrase: Promise<string> | null = null;
+  // Set once the saved session fails to decrypt: it is left alone until the
+  // user logs in again, imports cookies or clears it
+  private sessionWritesBlocked = false;
+
+  // sessionFile is where the profile in use keeps its session
+  constructor(
+    credentials: AuthCredentials,
+    proxy: ProxyRouter | null = null,
+    sessionFile: string = path.join(CONFIG_DIR, 'session.json'),
+    encryption: SessionEncryption | null = null,
+  ) {
     this.credentials = credentials;
-
-    // Store session file in user's config directory
-    const configDir = path.join(os.homedir(), '.config', 'cyoa-cli');
-    this.sessionFile = path.join(configDir, 'session.json');
+    this.proxy = proxy;
+    this.sessionFile = sessionFile;
+    this.encryption = encryption;
   }
 
   async initializeBrowser(
@@ -30,18 +69,33 @@ export class AuthManager {
   ): Promise<{ browser: Browser; page: Page }> {
     console.debug('Starting browser...');
 
-    this.browser = await puppeteer.launch({
+    const { browser, page } = await this.launchBrowser(headless);
+    this.browser = browser;
+    this.page = page;
+
+    return { browser: this.browser, page: this.page };
+  }
+
+  private async launchBrowser(
+    headless: boolean,
+  ): Promise<{ browser: Browser; page: Page }> {
+    const browser = await puppeteer.launch({
       headless: headless,
-      args: PUPPETEER_ARGS,
+      args: [...PUPPETEER_ARGS, ...(this.proxy?.getBrowserArgs() || [])],
     });
 
-    this.page = await this.browser.newPage();
+    const page = await browser.newPage();
 
     // Set viewport and user agent
-    await this.page.setViewport({ width: 1366, height: 768 });
-    await this.page.setUserAgent(DEFAULT_USER_AGENT);
+    await page.setViewport({ width: 1366, height: 768 });
+    await page.setUserAgent(DEFAULT_USER_AGENT);
 
-    return { browser: this.browser, page: this.page };
+    const proxyCredentials = this.proxy?.getBrowserCredentials();
+    if (proxyCredentials) {
+      await page.authenticate(proxyCredentials);
+    }
+
+    return { browser, page };
   }
 
   private async setupAuthentication(): Promise<void> {
@@ -50,15 +104,20 @@ export class AuthManager {
     // Navigate to the base URL first
     await this.page.goto(BASE_URL, { waitUntil: 'networkidle0' });
 
-    // Parse and set cookies
-    if (this.credentials.sessionCookie) {
+    // Cookies with their own scope (imported, or saved by an HTTP-mode run)
+    // are set as they are; a plain cookie string goes to the whole site
+    if (this.savedCookies.length > 0) {
+      await this.page.setCookie(...this.savedCookies.map(toBrowserCookie));
+      console.log(`Set ${this.savedCookies.length} authentication cookies`);
+    } else if (this.credentials.sessionCookie) {
       const cookies = this.credentials.sessionCookie
         .split(';')
         .map((cookie) => {
-          const [name, value] = cookie.trim().split('=');
+          // Values may contain "=" themselves
+          const separator = cookie.indexOf('=');
           return {
-            name: name.trim(),
-            value: value?.trim() || '',
+            name: cookie.slice(0, Math.max(separator, 0)).trim(),
+            value: separator < 0 ? '' : cookie.slice(separator + 1).trim(),
             domain: '.chyoa.com',
             path: '/',
           };
@@ -70,7 +129,9 @@ export class AuthManager {
         }
       }
       console.log(`Set ${cookies.length} authentication cookies`);
+    }
 
+    if (this.savedCookies.length > 0 || this.credentials.sessionCookie) {
       // Test authentication by trying to access a protected resource
       console.log('Testing authentication...');
       await this.page.reload({ waitUntil: 'networkidle0' });
@@ -98,7 +159,18 @@ export class AuthManager {
       const loginButton = await this.page.$('a[href*="/login"]');
 
       // If we have a profile link and no login button, we're authenticated
-      return profileLink !== null && loginButton === null;
+      if (profileLink === null || loginButton !== null) {
+        return false;
+      }
+
+      const profileUrl = await profileLink.evaluate((link) =>
+        link.getAttribute('href'),
+      );
+      this.account =
+        this.credentials.username ||
+        parseChyoaUrl(makeAbsoluteUrl(profileUrl || ''))?.slug ||
+        this.account;
+      return true;
     } catch (error) {
       console.warn('Error checking authentication:', error);
       return false;
@@ -138,17 +210,10 @@ export class AuthManager {
       if (isAuthenticated) {
         console.log('✅ Successfully authenticated!');
 
-        // Extract session cookies for future use
-        const cookies = await this.page.cookies();
-        const sessionCookies = cookies
-          .map((cookie) => `${cookie.name}=${cookie.value}`)
-          .join('; ');
-
-        this.credentials.sessionCookie = sessionCookies;
-        console.log('🍪 Session cookies saved for this session.');
-
         // Save session to file for future use
-        await this.saveSession();
+        this.sessionWritesBlocked = false;
+        await this.saveBrowserSession();
+        console.log('🍪 Session cookies saved for this session.');
 
         return true;
       } else {
@@ -161,22 +226,168 @@ export class AuthManager {
     }
   }
 
-  async saveSession(): Promise<void> {
+  // Log in by filling in the login form with the --username/--password
+  // credentials. CAPTCHA and two-factor prompts are left to the user.
+  async loginWithPassword(): Promise<PasswordLoginResult> {
+    const { username, password } = this.credentials;
+    if (!this.page || !username || !password) return 'failed';
+
+    try {
+      console.log(`🔑 Logging in as ${username}...`);
+      await this.page.goto(`${BASE_URL}/auth/login`, {
+        waitUntil: 'networkidle0',
+      });
+
+      if (await this.needsHumanInput()) {
+        return 'interactive';
+      }
+
+      const usernameField = await this.page.$(LOGIN_USERNAME_SELECTOR);
+      const passwordField = await this.page.$(LOGIN_PASSWORD_SELECTOR);
+      if (!usernameField || !passwordField) {
+        console.log('⚠️  Login form not found on the page');
+        return 'interactive';
+      }
+
+      await usernameField.type(username);
+      await passwordField.type(password);
+      await Promise.all([
+        this.page
+          .waitForNavigation({ waitUntil: 'networkidle0', timeout: 30000 })
+          .catch(() => null),
+        passwordField.press('Enter'),
+      ]);
+
+      if (await this.needsHumanInput()) {
+        return 'interactive';
+      }
+
+      if (!(await this.checkAuthentication())) {
+        console.log('❌ Login failed, check your username and password.');
+        return 'failed';
+      }
+
+      console.log('✅ Successfully authenticated!');
+
+      this.sessionWritesBlocked = false;
+      await this.saveBrowserSession();
+
+      return 'success';
+    } catch (error) {
+      console.error('Error during login:', error);
+      return 'failed';
+    }
+  }
+
+  private async needsHumanInput(): Promise<boolean> {
+    if (!this.page) return false;
+
+    if (await this.page.$(CAPTCHA_SELECTOR)) {
+      console.log('🧩 The login page asks for a CAPTCHA');
+      return true;
+    }
+    if (
+      (await this.page.$(TWO_FACTOR_SELECTOR)) ||
+      /two-factor|2fa/i.test(this.page.url())
+    ) {
+      console.log('🔢 The login asks for a two-factor code');
+      return true;
+    }
+    return false;
+  }
+
+  // Reopen a URL whose Cloudflare challenge the headless browser could not
+  // pass in a visible window so the user can solve it. The clearance (same
+  // user agent and proxy, so Cloudflare accepts it) is copied back into the
+  // headless browser and saved with the session.
+  async solveChallenge(url: string): Promise<boolean> {
+    if (!this.browser) return false;
+
+    let visible: Browser | null = null;
     try {
-      if (this.credentials.sessionCookie) {
-        // Ensure session directory exists
-        const sessionDir = path.dirname(this.sessionFile);
-        await ensureDirectory(sessionDir);
+      console.log('🌐 Opening browser to solve the Cloudflare challenge...');
+      const launched = await this.launchBrowser(false);
+      visible = launched.browser;
+      const page = launched.page;
+
+      // Keep the login session while the user is on the page
+      await visible.setCookie(...(await this.browser.cookies()));
+      await page.goto(url, { waitUntil: 'domcontentloaded' });
+
+      console.log(
+        'Please complete the check in the browser window; the download continues once it clears.',
+      );
+
+      const deadline = Date.now() + MANUAL_CHALLENGE_TIMEOUT;
+      for (;;) {
+        if (page.isClosed() || !visible.connected) {
+          console.log('❌ Browser window closed before the challenge cleared.');
+          return false;
+        }
+
+        // The challenge reloads the page, which destroys the context mid-check
+        const challenged = await page
+          .evaluate(() => document.title.includes('Just a moment'))
+          .catch(() => true);
+        if (!challenged) {
+          break;
+        }
+
+        if (Date.now() >= deadline) {
+          console.log('❌ Challenge was not solved in time.');
+          return false;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+
+      const cookies = await visible.cookies();
+      if (!cookies.some((cookie) => cookie.name === 'cf_clearance')) {
+        console.log('❌ No Cloudflare clearance cookie was issued.');
+        return false;
+      }
+
+      await this.browser.setCookie(...cookies);
+      console.log('✅ Cloudflare challenge solved!');
+
+      await this.saveBrowserSession();
+
+      return true;
+    } catch (error) {
+      console.error('Error while solving the challenge:', error);
+      return false;
+    } finally {
+      await visible?.close().catch(() => undefined);
+    }
+  }
+
+  // Save the browser's site cookies with their scope and expiry, so the
+  // session is trusted exactly as long as the site keeps it
+  private async saveBrowserSession(): Promise<void> {
+    if (!this.browser) return;
+
+    const host = new URL(BASE_URL).hostname;
+    const cookies = (await this.browser.cookies())
+      .map(fromBrowserCookie)
+      .filter((cookie) => isCookieForHost(cookie, host));
+    this.credentials.sessionCookie = new CookieJar(cookies).getCookieHeader(
+      BASE_URL,
+    );
+    await this.saveSession(cookies);
+  }
 
+  // jar holds the scoped cookies of the session, if known
+  async saveSession(jar?: StoredCookie[]): Promise<void> {
+    try {
+      if (this.credentials.sessionCookie || jar?.length) {
         const sessionData: SessionData = {
-          cookies: this.credentials.sessionCookie,
+          cookies: this.credentials.sessionCookie || '',
+          jar,
+          account: this.account,
           timestamp: Date.now(),
         };
-        await fs.writeFile(
-          this.sessionFile,
-          JSON.stringify(sessionData, null, 2),
-        );
-        console.log('💾 Session saved for future use');
+        if (await this.writeSessionFile(sessionData)) {
+          console.log('💾 Session saved for future use');
+        }
       }
     } catch (error) {
       console.warn('Failed to save session:', error);
@@ -184,24 +395,40 @@ export class AuthManager {
   }
 
   async loadSavedSession(): Promise<void> {
-    try {
-      if (existsSync(this.sessionFile)) {
-        const sessionData: SessionData = JSON.parse(
-          await fs.readFile(this.sessionFile, 'utf-8'),
-        );
+    // Imported cookies replace whatever session was saved before
+    const imported = this.credentials.cookies;
+    if (imported?.length) {
+      this.savedCookies = imported;
+      this.credentials.sessionCookie = new CookieJar(imported).getCookieHeader(
+        BASE_URL,
+      );
+      console.log(`🍪 Imported ${imported.length} cookies`);
+      this.sessionWritesBlocked = false;
+      await this.saveSession(imported);
+      return;
+    }
 
-        // Check if session is not too old (24 hours)
-        const sessionAge = Date.now() - sessionData.timestamp;
-        console.log(
-          `🔍 Debug: Session age: ${sessionAge}ms (${Math.round(sessionAge / 1000 / 60)} minutes)`,
-        );
-        console.log(
-          `🔍 Debug: Max age: ${SESSION_MAX_AGE}ms (${SESSION_MAX_AGE / 1000 / 60 / 60} hours)`,
-        );
+    try {
+      const sessionData = await this.readSession();
+      if (sessionData) {
+        // Sessions saved before encryption was turned on are migrated
+        if (this.encryption?.encrypt && !this.storedEncrypted) {
+          await this.writeSessionFile(sessionData);
+          console.log('🔒 Encrypted the saved session');
+        }
 
-        if (sessionAge < SESSION_MAX_AGE && sessionData.cookies) {
-          this.credentials.sessionCookie = sessionData.cookies;
-          console.log('🔄 Restored saved session from previous run');
+        const expiresAt = AuthManager.getSessionExpiry(sessionData);
+        // Cookies that ran out on their own are dropped, the rest kept
+        const jar = new CookieJar(sessionData.jar).getCookies();
+
+        if (expiresAt > Date.now() && (sessionData.cookies || jar.length > 0)) {
+          this.credentials.sessionCookie =
+            sessionData.cookies || this.credentials.sessionCookie;
+          this.savedCookies = jar;
+          this.account = sessionData.account;
+          console.log(
+            `🔄 Restored saved session from previous run (valid until ${new Date(expiresAt).toLocaleString()})`,
+          );
           // Don't call setupAuthentication here - wait for browser to be ready
         } else {
           console.log('⏰ Saved session expired, will need to re-authenticate');
@@ -210,14 +437,161 @@ export class AuthManager {
         }
       }
     } catch (error) {
+      // A session that cannot be decrypted is kept for the right passphrase
+      if (error instanceof SessionDecryptionError) {
+        console.warn(
+          `⚠️  ${error.message}, continuing without it (it is left untouched until you log in again or clear it)`,
+        );
+        return;
+      }
+
       console.warn('Failed to load saved session:', error);
       // Remove corrupted session file
       await this.cleanupSessionFile();
     }
   }
 
+  // A session is valid until its longest-lived login cookie (laravel_session
+  // or remember_web_*) expires. Sessions that only know a cookie string, or
+  // whose login cookies carry no expiry, fall back to SESSION_MAX_AGE from
+  // when they were saved.
+  static getSessionExpiry(sessionData: SessionData): number {
+    const expiries = (sessionData.jar || [])
+      .filter((cookie) => AUTH_COOKIE_PATTERN.test(cookie.name))
+      .map((cookie) => cookie.expires)
+      .filter((expires): expires is number => expires !== undefined);
+
+    return expiries.length > 0
+      ? Math.max(...expiries)
+      : sessionData.timestamp + SESSION_MAX_AGE;
+  }
+
+  // The saved session (decrypted), or null when there is none. Throws when
+  // the file cannot be read or decrypted.
+  async readSession(): Promise<SessionData | null> {
+    if (!existsSync(this.sessionFile)) {
+      return null;
+    }
+
+    const data = JSON.parse(await fs.readFile(this.sessionFile, 'utf-8'));
+    this.storedEncrypted = isEncryptedData(data);
+    if (!this.storedEncrypted) {
+      return data;
+    }
+
+    try {
+      return await decryptJson<SessionData>(data, await this.getPassphrase());
+    } catch (error) {
+      if (error instanceof SessionDecryptionError) {
+        // Don't encrypt anything else with a passphrase that did not work,
+        // and don't replace the session it failed to open
+        this.passphrase = null;
+        this.sessionWritesBlocked = true;
+      }
+      throw error;
+    }
+  }
+
+  // Whether the session read last was stored encrypted
+  isSessionEncrypted(): boolean {
+    return this.storedEncrypted;
+  }
+
+  // Rewrite the saved session encrypted or in plain text. Returns false when
+  // there is no saved session.
+  async setSessionEncrypted(encrypted: boolean): Promise<boolean> {
+    const sessionData = await this.readSession();
+    if (!sessionData) {
+      return false;
+    }
+
+    await this.writeSessionFile(sessionData, encrypted);
+    return true;
+  }
+
+  // Replace the saved session with one exported elsewhere
+  async importSession(sessionData: SessionData): Promise<void> {
+    this.sessionWritesBlocked = false;
+    await this.writeSessionFile(sessionData);
+  }
+
+  // Log in to the site with the saved session in a fresh browser and save
+  // the cookies it hands back. Returns whether the session is still valid.
+  async refreshSession(): Promise<boolean> {
+    await this.loadSavedSession();
+    if (!this.credentials.sessionCookie && this.savedCookies.length === 0) {
+      return false;
+    }
+
+    await this.initializeBrowser();
+    try {
+      const isValid = await this.setupAuthenticationAfterBrowser();
+      if (isValid) {
+        await this.saveBrowserSession();
+      }
+      return isValid;
+    } finally {
+      await this.closeBrowser();
+    }
+  }
+
+  getSessionFile(): string {
+    return this.sessionFile;
+  }
+
+  // Once encrypted, a session stays encrypted unless told otherwise. Returns
+  // false when writes are blocked by a session that failed to decrypt.
+  private async writeSessionFile(
+    sessionData: SessionData,
+    encrypt = this.encryption?.encrypt || this.storedEncrypted,
+  ): Promise<boolean> {
+    if (this.sessionWritesBlocked) {
+      console.warn(
+        '⚠️  Not saving the session: the saved one could not be decrypted. Log in again or use --clear-session to replace it.',
+      );
+      return false;
+    }
+
+    const contents = encrypt
+      ? await encryptJson(sessionData, await this.getPassphrase())
+      : sessionData;
+
+    // Ensure session directory exists
+    await ensureDirectory(path.dirname(this.sessionFile));
+    // The cookies are as good as a password, so only the owner may read them.
+    // A new file gets that mode on creation (an existing one would keep its
+    // own), and the rename never leaves a half-written session behind.
+    const tempFile = `${this.sessionFile}.${process.pid}.tmp`;
+    await fs.rm(tempFile, { force: true });
+    try {
+      await fs.writeFile(tempFile, JSON.stringify(contents, null, 2), {
+        mode: 0o600,
+        flag: 'wx',
+      });
+      await fs.rename(tempFile, this.sessionFile);
+    } catch (error) {
+      await fs.rm(tempFile, { force: true });
+      throw error;
+    }
+    this.storedEncrypted = encrypt;
+    return true;
+  }
+
+  private getPassphrase(): Promise<string> {
+    if (!this.encryption) {
+      return Promise.reject(
+        new SessionDecryptionError(
+          'The saved session is encrypted and no passphrase is available',
+        ),
+      );
+    }
+
+    this.passphrase ??= this.encryption.getPassphrase();
+    return this.passphrase;
+  }
+
   async setupAuthenticationAfterBrowser(): Promise<boolean> {
-    if (this.credentials.sessionCookie) {
+    if (this.credentials.sessionCookie || this.savedCookies.length > 0) {
       console.log('Setting up authentication cookies...');
       await this.setupAuthentication();
 
@@ -226,6 +600,7 @@ export class AuthManager {
       if (!isValid) {
         console.log('⚠️  Saved session expired, will need to re-authenticate');
         this.credentials.sessionCookie = undefined;
+        this.savedCookies = [];
         // Remove expired session file
         await this.cleanupSessionFile();
         return false;
@@ -238,6 +613,10 @@ export class AuthManager {
   }
 
   async cleanupSessionFile(): Promise<void> {
+    if (this.sessionWritesBlocked) {
+      return;
+    }
+
     try {
       await fs.unlink(this.sessionFile);
     } catch (error) {
@@ -246,6 +625,8 @@ export class AuthManager {
   }
 
   async clearSession(): Promise<void> {
+    this.sessionWritesBlocked = false;
+    this.passphrase = null;
     try {
       await fs.unlink(this.sessionFile);
       console.log('🗑️  Cleared saved session');
@@ -254,6 +635,10 @@ export class AuthManager {
     }
   }
 
+  getSavedCookies(): StoredCookie[] {
+    return this.savedCookies;
+  }
+
   getCredentials(): AuthCredentials {
     return this.credentials;
   }
@@ -262,3 +647,18 @@ export class AuthManager {
     this.credentials = { ...this.credentials, ...credentials };
   }
 }
+
+// Host-only cookies can only be set through a URL in the browser
+function toBrowserCookie(cookie: StoredCookie): CookieParam {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    ...(cookie.hostOnly
+      ? { url: `https://${cookie.domain}${cookie.path}` }
+      : { domain: `.${cookie.domain}` }),
+    path: cookie.path,
+    expires: cookie.expires ? cookie.expires / 1000 : undefined,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+  };
+}
@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import type { CacheEntryMeta } from './types.js';
+import { ensureDirectory, getUrlKey, normalizeUrl } from './utils.js';
+
+type CacheKind = 'pages' | 'images';
+
+export class ContentCache {
+  private cacheDir: string;
+  private ttl: number;
+
+  constructor(cacheDir: string, ttl: number) {
+    this.cacheDir = cacheDir;
+    this.ttl = ttl;
+  }
+
+  // Entries older than the TTL are ignored unless allowStale is set (offline mode)
+  async getPage(url: string, allowStale = false): Promise<string | null> {
+    const data = await this.read('pages', url, allowStale);
+    return data ? data.toString('utf-8') : null;
+  }
+
+  async setPage(url: string, html: string): Promise<void> {
+    await this.write('pages', url, Buffer.from(html, 'utf-8'));
+  }
+
+  async getImage(url: string, allowStale = false): Promise<Buffer | null> {
+    return this.read('images', url, allowStale);
+  }
+
+  async setImage(url: string, buffer: Buffer): Promise<void> {
+    await this.write('images', url, buffer);
+  }
+
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
+  private getEntryPaths(
+    kind: CacheKind,
+    url: string,
+  ): { dataFile: string; metaFile: string } {
+    // Equivalent spellings of a URL share one entry
+    const hash = createHash('sha256').update(getUrlKey(url)).digest('hex');
+    const base = path.join(this.cacheDir, kind, hash.slice(0, 2), hash);
+    return { dataFile: `${base}.bin`, metaFile: `${base}.json` };
+  }
+
+  private async read(
+    kind: CacheKind,
+    url: string,
+    allowStale: boolean,
+  ): Promise<Buffer | null> {
+    const { dataFile, metaFile } = this.getEntryPaths(kind, url);
+    if (!existsSync(metaFile) || !existsSync(dataFile)) {
+      return null;
+    }
+
+    try {
+      const meta: CacheEntryMeta = JSON.parse(
+        await fs.readFile(metaFile, 'utf-8'),
+      );
+      if (!allowStale && Date.now() - meta.fetchedAt > this.ttl) {
+        return null;
+      }
+      return await fs.readFile(dataFile);
+    } catch (error) {
+      console.warn(`Ignoring unreadable cache entry for ${url}:`, error);
+      return null;
+    }
+  }
+
+  private async write(
+    kind: CacheKind,
+    url: string,
+    data: Buffer,
+  ): Promise<void> {
+    const { dataFile, metaFile } = this.getEntryPaths(kind, url);
+
+    try {
+      await ensureDirectory(path.dirname(dataFile));
+      const meta: CacheEntryMeta = {
+        url: normalizeUrl(url),
+        fetchedAt: Date.now(),
+        size: data.length,
+      };
+      // Write the data first so a metadata file always points at complete content
+      await fs.writeFile(dataFile, data);
+      await fs.writeFile(metaFile, JSON.stringify(meta, null, 2));
+    } catch (error) {
+      console.warn(`Failed to cache ${url}:`, error);
+    }
+  }
+}
@@ -0,0 +1,310 @@
+import type { Cookie } from 'puppeteer';
+import type { StoredCookie } from './types.js';
+
+// Cookie store for plain HTTP requests. Cookies are scoped by domain and path
+// like a browser would, and Set-Cookie headers from every response (including
+// redirects) are applied, so refreshed sessions and Cloudflare clearance stick.
+export class CookieJar {
+  private cookies: StoredCookie[] = [];
+
+  constructor(cookies: StoredCookie[] = []) {
+    this.addCookies(cookies);
+  }
+
+  // Restore cookies saved by an earlier run
+  addCookies(cookies: StoredCookie[]): void {
+    cookies.forEach((cookie) => this.store({ ...cookie }));
+  }
+
+  // Seed from a "name=value; other=value" string as copied from a browser.
+  // Such cookies carry no scope, so they are sent to the domain and all of
+  // its subdomains.
+  setCookieString(cookieString: string, domain: string): void {
+    for (const pair of cookieString.split(';')) {
+      const separator = pair.indexOf('=');
+      if (separator <= 0) {
+        continue;
+      }
+
+      const value = pair.slice(separator + 1).trim();
+      if (!value) {
+        continue;
+      }
+
+      this.store({
+        name: pair.slice(0, separator).trim(),
+        value,
+        domain: domain.replace(/^\./, '').toLowerCase(),
+        path: '/',
+        secure: false,
+        httpOnly: false,
+        hostOnly: false,
+      });
+    }
+  }
+
+  // Apply one Set-Cookie header received for requestUrl
+  setCookie(header: string, requestUrl: string): void {
+    const url = new URL(requestUrl);
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      return;
+    }
+
+    const cookie: StoredCookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      domain: url.hostname.toLowerCase(),
+      path: getDefaultPath(url.pathname),
+      secure: false,
+      httpOnly: false,
+      hostOnly: true,
+    };
+    let expires: number | undefined;
+    let maxAge: number | undefined;
+
+    for (const attribute of attributes) {
+      const separator = attribute.indexOf('=');
+      const key = (separator < 0 ? attribute : attribute.slice(0, separator))
+        .trim()
+        .toLowerCase();
+      const value = separator < 0 ? '' : attribute.slice(separator + 1).trim();
+
+      switch (key) {
+        case 'domain': {
+          const domain = value.replace(/^\./, '').toLowerCase();
+          // A server may not set cookies for a domain it does not belong to
+          if (!domain || !domainMatches(cookie.domain, domain)) {
+            return;
+          }
+          cookie.domain = domain;
+          cookie.hostOnly = false;
+          break;
+        }
+        case 'path':
+          if (value.startsWith('/')) {
+            cookie.path = value;
+          }
+          break;
+        case 'expires': {
+          const date = Date.parse(value);
+          if (!isNaN(date)) {
+            expires = date;
+          }
+          break;
+        }
+        case 'max-age': {
+          const seconds = Number(value);
+          if (value && !isNaN(seconds)) {
+            maxAge = Date.now() + seconds * 1000;
+          }
+          break;
+        }
+        case 'secure':
+          cookie.secure = true;
+          break;
+        case 'httponly':
+          cookie.httpOnly = true;
+          break;
+      }
+    }
+
+    // Max-Age wins over Expires
+    cookie.expires = maxAge ?? expires;
+    this.store(cookie);
+  }
+
+  setCookiesFromResponse(response: Response, requestUrl: string): void {
+    for (const header of response.headers.getSetCookie()) {
+      this.setCookie(header, requestUrl);
+    }
+  }
+
+  // Cookie header for a request to url, most specific paths first
+  getCookieHeader(url: string): string {
+    const { hostname, pathname, protocol } = new URL(url);
+    const now = Date.now();
+
+    return this.cookies
+      .filter(
+        (cookie) =>
+          (cookie.expires === undefined || cookie.expires > now) &&
+          (!cookie.secure || protocol === 'https:') &&
+          (cookie.hostOnly
+            ? hostname.toLowerCase() === cookie.domain
+            : domainMatches(hostname.toLowerCase(), cookie.domain)) &&
+          pathMatches(pathname || '/', cookie.path),
+      )
+      .sort((a, b) => b.path.length - a.path.length)
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+  }
+
+  // Unexpired cookies, for persisting in the session store
+  getCookies(): StoredCookie[] {
+    const now = Date.now();
+    return this.cookies
+      .filter((cookie) => cookie.expires === undefined || cookie.expires > now)
+      .map((cookie) => ({ ...cookie }));
+  }
+
+  isEmpty(): boolean {
+    return this.getCookies().length === 0;
+  }
+
+  // A cookie replaces the one with the same name, domain and path; one that
+  // has already expired deletes it
+  private store(cookie: StoredCookie): void {
+    this.cookies = this.cookies.filter(
+      (existing) =>
+        existing.name !== cookie.name ||
+        existing.domain !== cookie.domain ||
+        existing.path !== cookie.path,
+    );
+
+    if (cookie.expires === undefined || cookie.expires > Date.now()) {
+      this.cookies.push(cookie);
+    }
+  }
+}
+
+// Read a cookie export: Netscape cookies.txt, or a JSON array as written by
+// browser cookie extensions, DevTools and Puppeteer (optionally wrapped in
+// { "cookies": [...] }). Expired cookies are dropped.
+export function parseCookieFile(content: string): StoredCookie[] {
+  const trimmed = content.trim();
+  const cookies =
+    trimmed.startsWith('[') || trimmed.startsWith('{')
+      ? parseJsonCookies(trimmed)
+      : parseNetscapeCookies(trimmed);
+
+  const now = Date.now();
+  return cookies.filter(
+    (cookie) => cookie.expires === undefined || cookie.expires > now,
+  );
+}
+
+export function fromBrowserCookie(cookie: Cookie): StoredCookie {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain.replace(/^\./, ''),
+    path: cookie.path,
+    // Puppeteer reports session cookies with a negative expiry
+    expires: cookie.expires > 0 ? cookie.expires * 1000 : undefined,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    hostOnly: !cookie.domain.startsWith('.'),
+  };
+}
+
+// Whether a cookie is scoped to hostname, one of its parent domains or one of
+// its subdomains; cookie exports usually hold every site the browser knows
+export function isCookieForHost(
+  cookie: StoredCookie,
+  hostname: string,
+): boolean {
+  return (
+    domainMatches(hostname, cookie.domain) ||
+    domainMatches(cookie.domain, hostname)
+  );
+}
+
+// domain, include-subdomains, path, secure, expiry (seconds, 0 for a session
+// cookie), name and value, tab-separated. curl marks HttpOnly cookies with a
+// "#HttpOnly_" domain prefix.
+function parseNetscapeCookies(content: string): StoredCookie[] {
+  const cookies: StoredCookie[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const httpOnly = line.startsWith('#HttpOnly_');
+    const entry = httpOnly ? line.slice('#HttpOnly_'.length) : line;
+    if (!entry.trim() || entry.startsWith('#')) {
+      return;
+    }
+
+    const fields = entry.split('\t');
+    if (fields.length < 7) {
+      throw new Error(
+        `Line ${index + 1} is not a cookies.txt entry (expected 7 tab-separated fields)`,
+      );
+    }
+
+    const [domain, includeSubdomains, path, secure, expiry, name] = fields;
+    const seconds = Number(expiry);
+    cookies.push({
+      name,
+      // Everything after the name is the value
+      value: fields.slice(6).join('\t'),
+      domain: domain.replace(/^\./, '').toLowerCase(),
+      path: path || '/',
+      expires: seconds > 0 ? seconds * 1000 : undefined,
+      secure: secure.toUpperCase() === 'TRUE',
+      httpOnly,
+      hostOnly:
+        includeSubdomains.toUpperCase() !== 'TRUE' && !domain.startsWith('.'),
+    });
+  });
+
+  return cookies;
+}
+
+function parseJsonCookies(content: string): StoredCookie[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  const entries = Array.isArray(data)
+    ? data
+    : (data as { cookies?: unknown }).cookies;
+  if (!Array.isArray(entries)) {
+    throw new Error('Expected a JSON array of cookies');
+  }
+
+  return entries.map((entry, index) => {
+    if (
+      typeof entry?.name !== 'string' ||
+      typeof entry.value !== 'string' ||
+      typeof entry.domain !== 'string'
+    ) {
+      throw new Error(`Cookie ${index + 1} has no name, value or domain`);
+    }
+
+    // Extensions write expirationDate, DevTools and Puppeteer expires; both
+    // are in seconds, with session cookies left out or set to -1
+    const seconds = Number(entry.expirationDate ?? entry.expires);
+    return {
+      name: entry.name,
+      value: entry.value,
+      domain: entry.domain.replace(/^\./, '').toLowerCase(),
+      path: entry.path || '/',
+      expires:
+        !entry.session && seconds > 0 ? Math.round(seconds * 1000) : undefined,
+      secure: entry.secure === true,
+      httpOnly: entry.httpOnly === true,
+      hostOnly: entry.hostOnly ?? !entry.domain.startsWith('.'),
+    };
+  });
+}
+
+function domainMatches(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  return (
+    requestPath === cookiePath ||
+    (requestPath.startsWith(cookiePath) &&
+      (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'))
+  );
+}
+
+// Cookies without a Path attribute apply to the directory of the request
+function getDefaultPath(pathname: string): string {
+  const lastSlash = pathname.lastIndexOf('/');
+  return lastSlash <= 0 ? '/' : pathname.slice(0, lastSlash);
+}
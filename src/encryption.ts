@@ -0,0 +1,108 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { SessionDecryptionError } from './errors.js';
+import type { EncryptedData } from './types.js';
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+// scrypt cost parameters; stored with the data so they can be raised later
+const SCRYPT_COST = { N: 2 ** 15, r: 8, p: 1 };
+// Limits for the cost read back from a file, which could otherwise make
+// scrypt allocate any amount of memory (128 * N * r bytes) or run for hours
+const MAX_SCRYPT_MEMORY = 256 * 1024 * 1024;
+const MAX_SCRYPT_P = 4;
+
+// Encrypt a JSON value with a key derived from passphrase (scrypt) using
+// AES-256-GCM, which also authenticates it
+export async function encryptJson(
+  value: unknown,
+  passphrase: string,
+): Promise<EncryptedData> {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = await deriveKey(passphrase, salt, SCRYPT_COST);
+
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(value), 'utf-8'),
+    cipher.final(),
+  ]);
+
+  return {
+    cipher: CIPHER,
+    kdf: { name: 'scrypt', ...SCRYPT_COST, salt: salt.toString('base64') },
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+// Throws SessionDecryptionError for a wrong passphrase or tampered data
+export async function decryptJson<T>(
+  encrypted: EncryptedData,
+  passphrase: string,
+): Promise<T> {
+  const { salt, ...cost } = encrypted.kdf;
+  if (!isAcceptedCost(cost)) {
+    throw new SessionDecryptionError(
+      'Cannot decrypt the session: unsupported key derivation parameters',
+    );
+  }
+  const key = await deriveKey(passphrase, Buffer.from(salt, 'base64'), cost);
+
+  try {
+    const decipher = createDecipheriv(
+      CIPHER,
+      key,
+      Buffer.from(encrypted.iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+    const data = Buffer.concat([
+      decipher.update(Buffer.from(encrypted.data, 'base64')),
+      decipher.final(),
+    ]);
+    return JSON.parse(data.toString('utf-8'));
+  } catch (error) {
+    throw new SessionDecryptionError(
+      'Cannot decrypt the session: wrong passphrase or damaged file',
+    );
+  }
+}
+
+export function isEncryptedData(data: unknown): data is EncryptedData {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as EncryptedData).cipher === CIPHER &&
+    (data as EncryptedData).kdf?.name === 'scrypt'
+  );
+}
+
+function isAcceptedCost({ N, r, p }: { N: number; r: number; p: number }) {
+  return (
+    [N, r, p].every((value) => Number.isSafeInteger(value) && value > 0) &&
+    N > 1 &&
+    (N & (N - 1)) === 0 &&
+    128 * N * r <= MAX_SCRYPT_MEMORY &&
+    p <= MAX_SCRYPT_P
+  );
+}
+
+function deriveKey(
+  passphrase: string,
+  salt: Buffer,
+  cost: { N: number; r: number; p: number },
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // The default memory limit (32 MiB) is exactly what N=2^15, r=8 needs,
+    // which scrypt rejects
+    scrypt(
+      passphrase,
+      salt,
+      KEY_LENGTH,
+      { ...cost, maxmem: 256 * cost.N * cost.r },
+      (error, key) => (error ? reject(error) : resolve(key)),
+    );
+  });
+}
@@ -0,0 +1,354 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  encodeFilePath,
+  escapeHtml,
+  getChapterId,
+  getStoryUuid,
+  type ExportChapter,
+  type ResolveImage,
+} from './formats.js';
+import { sanitizeChapterHtml } from './sanitize.js';
+import type { StoryData } from './types.js';
+import {
+  getMimeTypeFromExtension,
+  getUrlKey,
+  makeAbsoluteUrl,
+  sanitizeFilename,
+} from './utils.js';
+import { createZip, type ZipEntry } from './zip.js';
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; }
+h1 { font-size: 1.5em; }
+.chapter-meta { font-size: 0.85em; color: #555; }
+.question { margin-top: 2em; font-weight: bold; }
+img { max-width: 100%; }
+`;
+
+// Packages chapters as an EPUB 3 book: one XHTML document per chapter in
+// download order, a title page, a nav document and an NCX for older readers.
+// Downloaded images are included as files; nothing is fetched.
+export class EpubWriter {
+  private outputDir: string;
+  private resolveImage: ResolveImage;
+  private chapterFiles = new Map<string, string>();
+  private images = new Map<string, string>(); // Local file -> path in book
+
+  constructor(outputDir: string, resolveImage: ResolveImage) {
+    this.outputDir = outputDir;
+    this.resolveImage = resolveImage;
+  }
+
+  // Returns the name of the .epub file, written to outputDir
+  async write(chapters: ExportChapter[]): Promise<string> {
+    const mainTitle = chapters[0].story.title;
+    const authors = Array.from(
+      new Set(
+        chapters
+          .map(({ story }) => story.metadata.author?.name)
+          .filter((name): name is string => Boolean(name)),
+      ),
+    );
+    const tags = Array.from(
+      new Set(chapters.flatMap(({ story }) => story.metadata.tags)),
+    );
+    // Stable across re-exports of the same story, so readers keep their place
+    const identifier = `urn:uuid:${getStoryUuid(chapters[0].story.url)}`;
+
+    chapters.forEach(({ story, index }) => {
+      this.chapterFiles.set(getUrlKey(story.url), getChapterFile(index));
+    });
+
+    const documents: ZipEntry[] = chapters.map(({ story, index }) => ({
+      name: `EPUB/${getChapterFile(index)}`,
+      data: this.renderChapter(story, index),
+    }));
+
+    const imageEntries: ZipEntry[] = await Promise.all(
+      Array.from(this.images, async ([file, name]) => ({
+        name: `EPUB/${name}`,
+        data: await fs.readFile(path.join(this.outputDir, file)),
+        // Already compressed
+        store: true,
+      })),
+    );
+
+    const entries: ZipEntry[] = [
+      // Must come first, uncompressed, so readers can sniff the file type
+      { name: 'mimetype', data: 'application/epub+zip', store: true },
+      { name: 'META-INF/container.xml', data: CONTAINER_XML },
+      {
+        name: 'EPUB/content.opf',
+        data: this.renderPackage(
+          chapters,
+          mainTitle,
+          authors,
+          tags,
+          identifier,
+        ),
+      },
+      { name: 'EPUB/nav.xhtml', data: this.renderNav(chapters, mainTitle) },
+      {
+        name: 'EPUB/toc.ncx',
+        data: this.renderNcx(chapters, mainTitle, identifier),
+      },
+      { name: 'EPUB/style.css', data: STYLESHEET },
+      {
+        name: 'EPUB/title.xhtml',
+        data: this.renderTitlePage(chapters, mainTitle, authors),
+      },
+      ...documents,
+      ...imageEntries,
+    ];
+
+    const filename = `${sanitizeFilename(mainTitle)}.epub`;
+    await fs.writeFile(path.join(this.outputDir, filename), createZip(entries));
+    console.log(
+      `Saved EPUB: ${filename} (${chapters.length} chapters, ${imageEntries.length} images)`,
+    );
+    return filename;
+  }
+
+  private renderPackage(
+    chapters: ExportChapter[],
+    title: string,
+    authors: string[],
+    tags: string[],
+    identifier: string,
+  ): string {
+    // dcterms:modified takes no fractional seconds
+    const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+    const publishedAt = chapters[0].story.metadata.publishedAt;
+
+    const metadata = [
+      `<dc:identifier id="book-id">${identifier}</dc:identifier>`,
+      `<dc:title>${escapeHtml(title)}</dc:title>`,
+      '<dc:language>en</dc:language>',
+      ...authors.map(
+        (author, i) =>
+          `<dc:creator id="creator-${i + 1}">${escapeHtml(author)}</dc:creator>`,
+      ),
+      ...tags.map((tag) => `<dc:subject>${escapeHtml(tag)}</dc:subject>`),
+      publishedAt ? `<dc:date>${publishedAt.slice(0, 10)}</dc:date>` : '',
+      `<dc:source>${escapeHtml(chapters[0].story.url)}</dc:source>`,
+      `<meta property="dcterms:modified">${modified}</meta>`,
+    ].filter(Boolean);
+
+    const items = [
+      '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+      '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+      '<item id="style" href="style.css" media-type="text/css"/>',
+      '<item id="title-page" href="title.xhtml" media-type="application/xhtml+xml"/>',
+      ...chapters.map(
+        ({ index }) =>
+          `<item id="${getChapterId(index)}" href="${getChapterFile(index)}" media-type="application/xhtml+xml"/>`,
+      ),
+      ...Array.from(this.images.values(), (name, i) => {
+        const mimeType = getMimeTypeFromExtension(path.extname(name));
+        return `<item id="image-${i + 1}" href="${encodeFilePath(name)}" media-type="${mimeType}"/>`;
+      }),
+    ];
+
+    const spine = [
+      '<itemref idref="title-page"/>',
+      '<itemref idref="nav"/>',
+      ...chapters.map(
+        ({ index }) => `<itemref idref="${getChapterId(index)}"/>`,
+      ),
+    ];
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${indent(metadata, 4)}
+  </metadata>
+  <manifest>
+${indent(items, 4)}
+  </manifest>
+  <spine toc="ncx">
+${indent(spine, 4)}
+  </spine>
+</package>
+`;
+  }
+
+  private renderNav(chapters: ExportChapter[], title: string): string {
+    const entries = chapters.map(
+      ({ story, index }) =>
+        `<li><a href="${getChapterFile(index)}">${escapeHtml(getChapterTitle(story, index))}</a></li>`,
+    );
+
+    return renderXhtml(
+      title,
+      `<nav epub:type="toc" id="toc">
+  <h1>Contents</h1>
+  <ol>
+${indent(entries, 4)}
+  </ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+  <ol>
+    <li><a epub:type="titlepage" href="title.xhtml">Title Page</a></li>
+    <li><a epub:type="toc" href="nav.xhtml#toc">Contents</a></li>
+    <li><a epub:type="bodymatter" href="${getChapterFile(chapters[0].index)}">Start of Story</a></li>
+  </ol>
+</nav>`,
+    );
+  }
+
+  private renderNcx(
+    chapters: ExportChapter[],
+    title: string,
+    identifier: string,
+  ): string {
+    const navPoints = chapters.map(
+      (
+        { story, index },
+        i,
+      ) => `<navPoint id="navpoint-${i + 1}" playOrder="${i + 1}">
+  <navLabel><text>${escapeHtml(getChapterTitle(story, index))}</text></navLabel>
+  <content src="${getChapterFile(index)}"/>
+</navPoint>`,
+    );
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1" xml:lang="en">
+  <head>
+    <meta name="dtb:uid" content="${identifier}"/>
+    <meta name="dtb:depth" content="1"/>
+    <meta name="dtb:totalPageCount" content="0"/>
+    <meta name="dtb:maxPageNumber" content="0"/>
+  </head>
+  <docTitle><text>${escapeHtml(title)}</text></docTitle>
+  <navMap>
+${indent(navPoints.join('\n').split('\n'), 4)}
+  </navMap>
+</ncx>
+`;
+  }
+
+  private renderTitlePage(
+    chapters: ExportChapter[],
+    title: string,
+    authors: string[],
+  ): string {
+    const lines = [`<h1>${escapeHtml(title)}</h1>`];
+    if (authors.length > 0) {
+      lines.push(`<p>by ${escapeHtml(authors.join(', '))}</p>`);
+    }
+    lines.push(
+      `<p class="chapter-meta">${chapters.length} chapters, downloaded from <a href="${escapeHtml(chapters[0].story.url)}">${escapeHtml(chapters[0].story.url)}</a></p>`,
+    );
+
+    return renderXhtml(
+      title,
+      `<section epub:type="titlepage">
+${indent(lines, 2)}
+</section>`,
+    );
+  }
+
+  private renderChapter(story: StoryData, index: number): string {
+    const meta: string[] = [];
+    if (story.metadata.author) {
+      meta.push(`by ${escapeHtml(story.metadata.author.name)}`);
+    }
+    if (story.metadata.publishedAt) {
+      meta.push(`published ${story.metadata.publishedAt.slice(0, 10)}`);
+    }
+    meta.push(`<a href="${escapeHtml(story.url)}">source</a>`);
+
+    const parts = [
+      `<h1>${escapeHtml(getChapterTitle(story, index))}</h1>`,
+      `<p class="chapter-meta">${meta.join(' · ')}</p>`,
+      this.convertContent(story.content),
+    ];
+
+    if (story.question || story.choices.length > 0) {
+      parts.push(
+        `<p class="question">${escapeHtml(story.question || 'What happens next?')}</p>`,
+      );
+      if (story.choices.length > 0) {
+        const choices = story.choices.map((choice) => {
+          const href = this.getChapterLink(choice.url);
+          return `<li><a href="${escapeHtml(href)}">${escapeHtml(choice.text)}</a></li>`;
+        });
+        parts.push(`<ul class="choices">\n${indent(choices, 2)}\n</ul>`);
+      }
+    }
+
+    return renderXhtml(
+      story.title,
+      `<section epub:type="chapter">
+${parts.join('\n')}
+</section>`,
+    );
+  }
+
+  // Links to chapters in the book point at their documents and images at
+  // their packaged copies; images that were not downloaded are left out, as
+  // remote resources would need network access
+  private convertContent(html: string): string {
+    return sanitizeChapterHtml(html, {
+      xhtml: true,
+      getLink: (url) => this.getChapterLink(url),
+      getImage: (src) => {
+        const name = this.addImage(src);
+        return name ? encodeFilePath(name) : undefined;
+      },
+    });
+  }
+
+  private getChapterLink(url: string): string {
+    const absoluteUrl = makeAbsoluteUrl(url);
+    return this.chapterFiles.get(getUrlKey(absoluteUrl)) || absoluteUrl;
+  }
+
+  // Path of the image in the book, once it is known to be downloaded
+  private addImage(src: string): string | undefined {
+    const file = this.resolveImage(src);
+    if (!file) {
+      return undefined;
+    }
+
+    if (!this.images.has(file)) {
+      this.images.set(file, `images/${path.basename(file)}`);
+    }
+    return this.images.get(file);
+  }
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="EPUB/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+function renderXhtml(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function getChapterFile(index: number): string {
+  return `${getChapterId(index)}.xhtml`;
+}
+
+function getChapterTitle(story: StoryData, index: number): string {
+  return `Chapter ${index + 1}: ${story.title}`;
+}
+
+function indent(lines: string[], spaces: number): string {
+  return lines.map((line) => `${' '.repeat(spaces)}${line}`).join('\n');
+}
@@ -0,0 +1,90 @@
+// Errors raised while fetching from CHYOA. `transient` marks failures that are
+// worth retrying; `retryAfter` (ms) is set when the server said how long to wait.
+export class ChyoaError extends Error {
+  readonly url?: string;
+  readonly transient: boolean;
+  readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    options: { url?: string; transient?: boolean; retryAfter?: number } = {},
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.url = options.url;
+    this.transient = options.transient ?? false;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+export class CloudflareChallengeError extends ChyoaError {
+  constructor(message: string, url?: string) {
+    super(message, { url });
+  }
+}
+
+export class AuthRequiredError extends ChyoaError {
+  constructor(message: string, url?: string) {
+    super(message, { url });
+  }
+}
+
+export class NotFoundError extends ChyoaError {
+  constructor(message: string, url?: string) {
+    super(message, { url });
+  }
+}
+
+export class RateLimitedError extends ChyoaError {
+  constructor(message: string, url?: string, retryAfter?: number) {
+    super(message, { url, transient: true, retryAfter });
+  }
+}
+
+// Connection failures, timeouts and unexpected HTTP statuses. Only timeouts,
+// connection errors and 5xx responses are transient.
+export class NetworkError extends ChyoaError {
+  readonly status?: number;
+
+  constructor(
+    message: string,
+    options: { url?: string; status?: number; retryAfter?: number } = {},
+  ) {
+    super(message, {
+      url: options.url,
+      transient: options.status === undefined || options.status >= 500,
+      retryAfter: options.retryAfter,
+    });
+    this.status = options.status;
+  }
+}
+
+export class CacheMissError extends ChyoaError {
+  constructor(message: string, url?: string) {
+    super(message, { url });
+  }
+}
+
+// The saved session is encrypted and could not be decrypted
+export class SessionDecryptionError extends ChyoaError {
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+export function isTransientError(error: unknown): boolean {
+  return error instanceof ChyoaError && error.transient;
+}
+
+// Failures that would hit every other chapter just the same (login needed,
+// offline cache incomplete, blocked by Cloudflare, cancelled), so skipping
+// the chapter and carrying on makes no sense
+export function isRunFatalError(error: unknown): boolean {
+  return (
+    error instanceof AuthRequiredError ||
+    error instanceof CacheMissError ||
+    error instanceof CloudflareChallengeError ||
+    error instanceof SessionDecryptionError ||
+    (error instanceof Error && error.name === 'AbortError')
+  );
+}
@@ -1,28 +1,48 @@
-import { promises as fs } from 'fs';
+import { existsSync, promises as fs } from 'fs';
 import path from 'path';
 import * as cheerio from 'cheerio';
-import { Page } from 'puppeteer';
 import sharp from 'sharp';
-import type { Chapter, StoryData } from './types.js';
+import { EpubWriter } from './epub.js';
+import type { ContentFetcher } from './fetcher.js';
+import type { ExportChapter } from './formats.js';
+import { HtmlReaderWriter } from './reader.js';
+import { TweeWriter } from './twee.js';
+import type {
+  Chapter,
+  ChapterMetadata,
+  ExportFormat,
+  ImageRecord,
+  StoryData,
+} from './types.js';
 import {
   BASE_URL,
   cleanHtmlEntities,
   convertToWebpFilename,
   getFilenameFromUrl,
   getMimeTypeFromExtension,
+  getUrlKey,
   IMAGES_DIR,
+  makeAbsoluteUrl,
   sanitizeFilename,
 } from './utils.js';
 
+export interface ProcessImagesOptions {
+  skip?: Set<string>;
+  onImage?: (record: ImageRecord) => void;
+}
+
 export class StoryExporter {
   private outputDir: string;
   private convertToWebp: boolean;
   private embedImages: boolean;
   private singleFile: boolean;
   private jsonFile: boolean;
-  private page: Page | null = null;
-  private combinedStories: Array<{ story: StoryData; index: number }> = [];
+  private format: ExportFormat;
+  private fetcher: ContentFetcher | null = null;
+  private combinedStories: ExportChapter[] = [];
   private chapters: Chapter[] = [];
+  private chapterParents = new Map<string, string | undefined>();
+  private chapterFiles = new Map<string, string>();
 
   constructor(
     outputDir: string,
@@ -30,17 +50,24 @@ export class StoryExporter {
     embedImages: boolean,
     singleFile: boolean,
     jsonFile: boolean,
-    page: Page | null = null,
+    format: ExportFormat,
+    fetcher: ContentFetcher | null = null,
   ) {
     this.outputDir = outputDir;
     this.convertToWebp = convertToWebp;
     this.embedImages = embedImages;
     this.singleFile = singleFile;
     this.jsonFile = jsonFile;
-    this.page = page;
+    this.format = format;
+    this.fetcher = fetcher;
   }
 
-  async processImages(story: StoryData): Promise<void> {
+  // Images listed in skip are left alone; onImage is told about every image
+  // as soon as it has been handled
+  async processImages(
+    story: StoryData,
+    options: ProcessImagesOptions = {},
+  ): Promise<void> {
     if (story.images.length === 0) {
       return;
     }
@@ -49,35 +76,51 @@ export class StoryExporter {
       `Processing ${story.images.length} images for "${story.title}"`,
     );
 
+    // Pick the images to fetch up front (one per filename) so they can be
+    // downloaded in parallel
     const processedImages = new Set<string>();
+    const pending: Array<{ imageUrl: string; index: number }> = [];
 
-    for (let i = 0; i < story.images.length; i++) {
-      const imageUrl = story.images[i];
+    story.images.forEach((imageUrl, i) => {
       const filename = getFilenameFromUrl(imageUrl, `image_${i}.jpg`);
 
-      if (!processedImages.has(filename)) {
+      if (processedImages.has(filename)) {
+        return;
+      }
+      processedImages.add(filename);
+
+      if (options.skip?.has(imageUrl)) {
+        console.log(`Skipping already downloaded image: ${imageUrl}`);
+        return;
+      }
+
+      pending.push({ imageUrl, index: i });
+    });
+
+    await Promise.all(
+      pending.map(async ({ imageUrl, index }) => {
+        let record: ImageRecord;
         try {
-          if (this.embedImages) {
-            await this.processImageForEmbedding(imageUrl, story, i);
-          } else {
-            await this.downloadImage(imageUrl, story.title, i);
-          }
-          processedImages.add(filename);
+          record = this.embedImages
+            ? await this.processImageForEmbedding(imageUrl, story, index)
+            : await this.downloadImage(imageUrl, story.title, index);
         } catch (error) {
           console.warn(`Failed to process image ${imageUrl}:`, error);
+          record = { url: imageUrl, status: 'failed' };
         }
-      }
-    }
+        options.onImage?.(record);
+      }),
+    );
   }
 
   private async downloadImage(
     imageUrl: string,
     storyTitle: string,
     index: number,
-  ): Promise<void> {
-    if (!this.page) {
-      console.warn('No browser page available for image download');
-      return;
+  ): Promise<ImageRecord> {
+    if (!this.fetcher) {
+      console.warn('No fetcher available for image download');
+      return { url: imageUrl, status: 'failed' };
     }
 
     try {
@@ -85,8 +128,6 @@ export class StoryExporter {
         ? imageUrl
         : `${BASE_URL}${imageUrl}`;
 
-      console.log(`Downloading image via browser: ${fullUrl}`);
-
       // Get filename from URL
       let filename = getFilenameFromUrl(
         fullUrl,
@@ -99,34 +140,18 @@ export class StoryExporter {
         filename = convertToWebpFilename(filename);
       }
 
-      const filepath = path.join(this.outputDir, IMAGES_DIR, filename);
-
       // For protected images, try to get the actual image if authentication works
       if (fullUrl.includes('default.jpg')) {
         console.log('⚠️  Protected image detected - skipping placeholder');
         // Skip downloading placeholder images entirely
-        return;
+        return { url: imageUrl, status: 'done' };
       }
 
-      // Navigate to the image URL using the authenticated browser session
-      const response = await this.page.goto(fullUrl, {
-        waitUntil: 'networkidle0',
-        timeout: 15000,
-      });
-
-      if (!response || !response.ok()) {
-        console.warn(
-          `Failed to load image ${fullUrl}: HTTP ${response?.status() || 'unknown'}`,
-        );
-        return;
-      }
-
-      // Get the image as buffer
-      let buffer = await response.buffer();
+      let buffer = await this.fetcher.fetchImage(fullUrl);
 
       if (!buffer || buffer.length === 0) {
         console.warn(`Empty image buffer for ${fullUrl}`);
-        return;
+        return { url: imageUrl, status: 'failed' };
       }
 
       // Convert to WebP if enabled
@@ -150,9 +175,16 @@ export class StoryExporter {
         );
       }
 
+      const filepath = path.join(this.outputDir, IMAGES_DIR, filename);
       await fs.writeFile(filepath, buffer);
+      return {
+        url: imageUrl,
+        file: `${IMAGES_DIR}/${filename}`,
+        status: 'done',
+      };
     } catch (error) {
       console.warn(`Failed to download image ${imageUrl}:`, error);
+      return { url: imageUrl, status: 'failed' };
     }
   }
 
@@ -160,10 +192,10 @@ export class StoryExporter {
     imageUrl: string,
     story: StoryData,
     index: number,
-  ): Promise<void> {
-    if (!this.page) {
-      console.warn('No browser page available for image processing');
-      return;
+  ): Promise<ImageRecord> {
+    if (!this.fetcher) {
+      console.warn('No fetcher available for image processing');
+      return { url: imageUrl, status: 'failed' };
     }
 
     try {
@@ -176,28 +208,14 @@ export class StoryExporter {
       // For protected images, skip placeholder images
       if (fullUrl.includes('default.jpg')) {
         console.log('⚠️  Protected image detected - skipping placeholder');
-        return;
-      }
-
-      // Navigate to the image URL using the authenticated browser session
-      const response = await this.page.goto(fullUrl, {
-        waitUntil: 'networkidle0',
-        timeout: 15000,
-      });
-
-      if (!response || !response.ok()) {
-        console.warn(
-          `Failed to load image ${fullUrl}: HTTP ${response?.status() || 'unknown'}`,
-        );
-        return;
+        return { url: imageUrl, status: 'done' };
       }
 
-      // Get the image as buffer
-      let buffer = await response.buffer();
+      let buffer = await this.fetcher.fetchImage(fullUrl);
 
       if (!buffer || buffer.length === 0) {
         console.warn(`Empty image buffer for ${fullUrl}`);
-        return;
+        return { url: imageUrl, status: 'failed' };
       }
 
       // Convert to WebP if enabled
@@ -236,8 +254,10 @@ export class StoryExporter {
       console.log(
         `✅ Embedded image as base64 (${buffer.length} bytes -> ${base64.length} chars)`,
       );
+      return { url: imageUrl, status: 'done' };
     } catch (error) {
       console.warn(`Failed to process image for embedding ${imageUrl}:`, error);
+      return { url: imageUrl, status: 'failed' };
     }
   }
 
@@ -325,58 +345,147 @@ export class StoryExporter {
     return markdown;
   }
 
-  async saveStory(story: StoryData, index: number): Promise<void> {
-    if (this.jsonFile) {
+  // Record the file every chapter will be saved to, so choices can link to
+  // chapters that are written later in the run
+  registerStories(stories: StoryData[]): void {
+    stories.forEach((story, index) => {
+      this.chapterFiles.set(
+        getUrlKey(story.url),
+        this.getChapterFilename(story, index),
+      );
+    });
+  }
+
+  private getChapterFilename(story: StoryData, index: number): string {
+    return `${String(index).padStart(2, '0')}_${sanitizeFilename(story.title)}.md`;
+  }
+
+  // One "**Label:** value" line per known field, matching the Source URL line
+  private renderMetadataMarkdown(metadata: ChapterMetadata): string {
+    const lines: string[] = [];
+    const formatDate = (iso: string) => iso.slice(0, 10);
+
+    if (metadata.author) {
+      lines.push(
+        metadata.author.profileUrl
+          ? `**Author:** [${metadata.author.name}](${metadata.author.profileUrl})`
+          : `**Author:** ${metadata.author.name}`,
+      );
+    }
+    if (metadata.publishedAt) {
+      lines.push(`**Published:** ${formatDate(metadata.publishedAt)}`);
+    }
+    if (metadata.updatedAt) {
+      lines.push(`**Updated:** ${formatDate(metadata.updatedAt)}`);
+    }
+    if (metadata.tags.length > 0) {
+      lines.push(`**Tags:** ${metadata.tags.join(', ')}`);
+    }
+    lines.push(`**Words:** ${metadata.wordCount}`);
+    if (metadata.views !== undefined) {
+      lines.push(`**Views:** ${metadata.views}`);
+    }
+    if (metadata.likes !== undefined) {
+      lines.push(`**Likes:** ${metadata.likes}`);
+    }
+    if (metadata.chapterId) {
+      lines.push(`**Chapter ID:** ${metadata.chapterId}`);
+    }
+
+    return lines.map((line) => `${line}\n`).join('');
+  }
+
+  private renderChoicesMarkdown(
+    story: StoryData,
+    getLink: (url: string) => string | undefined,
+  ): string {
+    if (!story.question && story.choices.length === 0) {
+      return '';
+    }
+
+    const lines = [`**${story.question || 'What happens next?'}**`, ''];
+    for (const choice of story.choices) {
+      const text = choice.text.replace(/([[\]])/g, '\\$1');
+      const link = getLink(choice.url);
+      lines.push(link ? `- [${text}](${link})` : `- ${text} (${choice.url})`);
+    }
+
+    return lines.join('\n').trim();
+  }
+
+  // Returns the file written for this chapter; combined formats only write
+  // in finalizeSave
+  async saveStory(
+    story: StoryData,
+    index: number,
+  ): Promise<string | undefined> {
+    if (this.format !== 'markdown') {
+      this.combinedStories.push({ story, index });
+    } else if (this.jsonFile) {
       this.collectChapter(story);
     } else if (this.singleFile) {
       this.combinedStories.push({ story, index });
     } else {
-      await this.saveStoryAsMarkdown(story, index);
+      return await this.saveStoryAsMarkdown(story, index);
     }
   }
 
   private async saveStoryAsMarkdown(
     story: StoryData,
     index: number,
-  ): Promise<void> {
+  ): Promise<string> {
     const markdown = this.convertHtmlToMarkdown(story.content);
-    const filename = `${String(index).padStart(2, '0')}_${sanitizeFilename(story.title)}.md`;
+    const filename = this.getChapterFilename(story, index);
     const filepath = path.join(this.outputDir, filename);
 
-    // Extract author from the original HTML if possible
-    const $ = cheerio.load(story.content);
-    let author = '';
-    $("a[href*='/user/']").each((_, el) => {
-      const authorName = $(el).text().trim();
-      if (authorName && !author) {
-        author = authorName;
-      }
-    });
+    const choices = this.renderChoicesMarkdown(story, (url) =>
+      this.chapterFiles.get(getUrlKey(url)),
+    );
 
     const content = `# ${story.title}
 
-${author ? `**Author:** ${author}\n` : ''}**Source URL:** ${story.url}
+${this.renderMetadataMarkdown(story.metadata)}**Source URL:** ${story.url}
 
 ---
 
 ${markdown}
-`;
+${choices ? `\n---\n\n${choices}\n` : ''}`;
 
     await fs.writeFile(filepath, content, 'utf-8');
     console.log(`Saved: ${filename}`);
+    return filename;
   }
 
-  async finalizeSave(): Promise<void> {
+  // Returns the combined file written, if the format produces one
+  async finalizeSave(): Promise<string | undefined> {
+    if (this.format === 'epub' && this.combinedStories.length > 0) {
+      return await new EpubWriter(this.outputDir, (src) =>
+        this.getLocalImageFile(src),
+      ).write(this.combinedStories);
+    }
+
+    if (this.format === 'html' && this.combinedStories.length > 0) {
+      return await new HtmlReaderWriter(this.outputDir, (src) =>
+        this.getLocalImageFile(src),
+      ).write(this.combinedStories);
+    }
+
+    if (this.format === 'twee' && this.combinedStories.length > 0) {
+      return await new TweeWriter(this.outputDir, (src) =>
+        this.getLocalImageFile(src),
+      ).write(this.combinedStories);
+    }
+
     if (this.singleFile && this.combinedStories.length > 0) {
-      await this.saveCombinedStoryAsMarkdown();
+      return await this.saveCombinedStoryAsMarkdown();
     }
 
     if (this.jsonFile && this.chapters.length > 0) {
-      await this.saveStoryAsJson();
+      return await this.saveStoryAsJson();
     }
   }
 
-  private async saveCombinedStoryAsMarkdown(): Promise<void> {
+  private async saveCombinedStoryAsMarkdown(): Promise<string> {
     console.log(
       `Combining ${this.combinedStories.length} stories into a single file`,
     );
@@ -385,30 +494,39 @@ ${markdown}
     const allAuthors = new Set<string>();
     const allUrls: string[] = [];
 
+    // Choices link to the heading anchor of chapters in this file
+    const anchors = new Map(
+      this.combinedStories.map(({ story, index }) => [
+        getUrlKey(story.url),
+        `#chapter-${index + 1}`,
+      ]),
+    );
+
     // Process each story
     for (const { story, index } of this.combinedStories) {
       const markdown = this.convertHtmlToMarkdown(story.content);
 
-      // Extract author from the original HTML if possible
-      const $ = cheerio.load(story.content);
-      $("a[href*='/user/']").each((_, el) => {
-        const authorName = $(el).text().trim();
-        if (authorName) {
-          allAuthors.add(authorName);
-        }
-      });
+      if (story.metadata.author) {
+        allAuthors.add(story.metadata.author.name);
+      }
 
       allUrls.push(story.url);
 
       // Add story content with chapter heading
-      combinedContent += `# Chapter ${index + 1}: ${story.title}
+      const choices = this.renderChoicesMarkdown(story, (url) =>
+        anchors.get(getUrlKey(url)),
+      );
 
-**Source URL:** ${story.url}
+      combinedContent += `<a id="chapter-${index + 1}"></a>
+
+# Chapter ${index + 1}: ${story.title}
+
+${this.renderMetadataMarkdown(story.metadata)}**Source URL:** ${story.url}
 
 ---
 
 ${markdown}
-
+${choices ? `\n${choices}\n` : ''}
 ${index < this.combinedStories.length - 1 ? '\n---\n\n' : ''}`;
     }
 
@@ -436,34 +554,49 @@ ${allUrls.map((url) => `- ${url}`).join('\n')}
 
     await fs.writeFile(filepath, finalContent, 'utf-8');
     console.log(`Saved combined story: ${filename}`);
+    return filename;
+  }
+
+  // File below the output directory an image was downloaded to, if any. A
+  // failed WebP conversion leaves the original format behind.
+  private getLocalImageFile(src: string): string | undefined {
+    const filename = getFilenameFromUrl(makeAbsoluteUrl(src));
+    const candidates = this.convertToWebp
+      ? [convertToWebpFilename(filename), filename]
+      : [filename];
+
+    return candidates
+      .map((candidate) => `${IMAGES_DIR}/${candidate}`)
+      .find((file) => existsSync(path.join(this.outputDir, file)));
   }
 
   private collectChapter(story: StoryData): void {
     const markdown = this.convertHtmlToMarkdown(story.content);
 
-    // Extract author from the original HTML if possible
-    const $ = cheerio.load(story.content);
-    let author: string | undefined;
-    $("a[href*='/user/']").each((_, el) => {
-      const authorName = $(el).text().trim();
-      if (authorName && !author) {
-        author = authorName;
-      }
-    });
-
     const chapter: Chapter = {
+      url: story.url,
       title: story.title,
+      metadata: story.metadata,
       content: markdown,
     };
 
-    if (author) {
-      chapter.author = author;
+    if (story.metadata.author) {
+      chapter.author = story.metadata.author.name;
+    }
+
+    if (story.question) {
+      chapter.question = story.question;
+    }
+
+    if (story.choices.length > 0) {
+      chapter.choices = story.choices;
     }
 
     this.chapters.push(chapter);
+    this.chapterParents.set(getUrlKey(story.url), story.parentUrl);
   }
 
-  private async saveStoryAsJson(): Promise<void> {
+  private async saveStoryAsJson(): Promise<string> {
     console.log(`Saving ${this.chapters.length} chapters as JSON`);
 
     // Get the main story title from the first chapter
@@ -471,12 +604,13 @@ ${allUrls.map((url) => `- ${url}`).join('\n')}
     const filename = `${sanitizeFilename(mainTitle)}_chapters.json`;
     const filepath = path.join(this.outputDir, filename);
 
-    // Create the JSON structure - chapters are in chronological order (parents first)
-    // so we need to build the tree structure
+    // Create the JSON structure - chapters are collected parents first, so
+    // every parent is known by the time its children are attached
     const jsonData = this.buildChapterTree();
 
     await fs.writeFile(filepath, JSON.stringify(jsonData, null, 2), 'utf-8');
     console.log(`Saved JSON file: ${filename}`);
+    return filename;
   }
 
   private buildChapterTree(): Chapter[] {
@@ -484,12 +618,27 @@ ${allUrls.map((url) => `- ${url}`).join('\n')}
       return [];
     }
 
-    // Build hierarchical structure where each chapter has the next as its child
-    for (let i = 0; i < this.chapters.length - 1; i++) {
-      this.chapters[i].children = [this.chapters[i + 1]];
+    const chaptersByUrl = new Map(
+      this.chapters.map((chapter) => [getUrlKey(chapter.url), chapter]),
+    );
+    const roots: Chapter[] = [];
+
+    // Attach each chapter to its "Previous Chapter"; anything whose parent
+    // was not downloaded becomes a root of its own
+    for (const chapter of this.chapters) {
+      const parentUrl = this.chapterParents.get(getUrlKey(chapter.url));
+      const parent = parentUrl
+        ? chaptersByUrl.get(getUrlKey(parentUrl))
+        : undefined;
+
+      if (parent && parent !== chapter) {
+        parent.children = parent.children || [];
+        parent.children.push(chapter);
+      } else {
+        roots.push(chapter);
+      }
     }
 
-    // Return only the root chapter (first one)
-    return [this.chapters[0]];
+    return roots;
   }
 }
@@ -1,38 +1,145 @@
 import * as cheerio from 'cheerio';
-import { Page } from 'puppeteer';
-import type { StoryData } from './types.js';
+import { HTTPResponse, Page } from 'puppeteer';
+import type { ContentCache } from './cache.js';
+import { CookieJar, fromBrowserCookie } from './cookies.js';
+import {
+  AuthRequiredError,
+  CacheMissError,
+  ChyoaError,
+  CloudflareChallengeError,
+  isRunFatalError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+} from './errors.js';
+import type { ProxyRouter } from './proxy.js';
+import { DEFAULT_RETRY_POLICY, parseRetryAfter, withRetry } from './retry.js';
+import { RequestScheduler } from './scheduler.js';
+import type {
+  ChapterMetadata,
+  RetryPolicy,
+  StoryChoice,
+  StoryData,
+  StoryIndex,
+  StoryStore,
+  UserListing,
+} from './types.js';
 import {
   BASE_URL,
+  BLOCKED_RESOURCE_HOSTS,
+  BLOCKED_RESOURCE_TYPES,
+  cleanHtmlEntities,
+  countWords,
+  DEFAULT_CHALLENGE_TIMEOUT_SECONDS,
+  DEFAULT_MAX_CONCURRENCY,
+  DEFAULT_REQUESTS_PER_MINUTE,
   DEFAULT_USER_AGENT,
+  getChapterIdFromUrl,
+  getStoryBaseUrl,
+  getStoryIdFromUrl,
+  getUrlKey,
+  getUserProfileUrl,
   isValidStoryImage,
   makeAbsoluteUrl,
-  randomDelay,
+  normalizeUrl,
+  parseCount,
   sanitizeTitle,
+  toIsoDate,
 } from './utils.js';
 
+// Chapter header/footer blocks that carry the page metadata. The story text
+// itself is deliberately excluded so names mentioned in it are never picked up.
+const METADATA_SELECTOR =
+  '.chapter-info, .chapter-header, .chapter-footer, .chapter-meta, .meta';
+
+const MAX_REDIRECTS = 10;
+const READY_POLL_INTERVAL = 250;
+
+export interface FetcherOptions {
+  cache?: ContentCache | null;
+  offline?: boolean;
+  retryPolicy?: RetryPolicy;
+  scheduler?: RequestScheduler;
+  cookieJar?: CookieJar;
+  // Use the browser only to get past Cloudflare and log in, then fetch over
+  // HTTP with its cookies and user agent
+  hybrid?: boolean;
+  proxy?: ProxyRouter | null;
+  challengeTimeout?: number; // ms to wait for a Cloudflare challenge
+  // Asked to get a challenge the browser could not pass solved by hand;
+  // resolves to whether the request is worth trying again
+  onChallenge?: (url: string) => Promise<boolean>;
+}
+
 export class ContentFetcher {
   private usePuppeteer: boolean;
   private page: Page | null = null;
+  private cache: ContentCache | null;
+  private offline: boolean;
+  private retryPolicy: RetryPolicy;
+  private scheduler: RequestScheduler;
+  private cookieJar: CookieJar;
+  private hybrid: boolean;
+  private proxy: ProxyRouter | null;
+  private challengeTimeout: number;
+  private onChallenge: ((url: string) => Promise<boolean>) | null;
+  private interceptedPages = new WeakSet<Page>();
+  private userAgent = DEFAULT_USER_AGENT;
+  private browserSessionReady: Promise<void> | null = null;
+  // Chapter images the browser loaded along with their page, by URL key.
+  // Only used without a cache; otherwise they go straight into the cache.
+  private capturedImages = new Map<string, Buffer>();
+  private idlePages: Page[] = [];
+  private storyStore: StoryStore | null = null;
 
-  constructor(usePuppeteer: boolean, page: Page | null = null) {
+  constructor(
+    usePuppeteer: boolean,
+    page: Page | null = null,
+    options: FetcherOptions = {},
+  ) {
     this.usePuppeteer = usePuppeteer;
     this.page = page;
+    this.cache = options.cache || null;
+    this.offline = options.offline || false;
+    this.retryPolicy = options.retryPolicy || DEFAULT_RETRY_POLICY;
+    this.scheduler =
+      options.scheduler ||
+      new RequestScheduler(
+        DEFAULT_REQUESTS_PER_MINUTE,
+        DEFAULT_MAX_CONCURRENCY,
+      );
+    this.cookieJar = options.cookieJar || new CookieJar();
+    this.hybrid = options.hybrid || false;
+    this.proxy = options.proxy || null;
+    this.challengeTimeout =
+      options.challengeTimeout ?? DEFAULT_CHALLENGE_TIMEOUT_SECONDS * 1000;
+    this.onChallenge = options.onChallenge || null;
+    if (page) {
+      this.idlePages.push(page);
+    }
+  }
+
+  // While set, chapters found in the store are not fetched again and every
+  // newly fetched chapter is added to it
+  setStoryStore(storyStore: StoryStore | null): void {
+    this.storyStore = storyStore;
   }
 
   async getStoryChain(storyUrl: string): Promise<StoryData[]> {
     const stories: StoryData[] = [];
-    const visitedUrls = new Set<string>();
+    const visitedKeys = new Set<string>();
     let currentUrl = storyUrl;
 
-    while (currentUrl && !visitedUrls.has(currentUrl)) {
+    // The same chapter can be linked under different slugs or spellings
+    while (currentUrl && !visitedKeys.has(getUrlKey(currentUrl))) {
       console.log(`Fetching story data from: ${currentUrl}`);
-      visitedUrls.add(currentUrl);
+      visitedKeys.add(getUrlKey(currentUrl));
       const storyData = await this.fetchStoryData(currentUrl);
       stories.unshift(storyData); // Add to beginning to maintain parent -> child order
       currentUrl = storyData.parentUrl || '';
     }
 
-    if (currentUrl && visitedUrls.has(currentUrl)) {
+    if (currentUrl && visitedKeys.has(getUrlKey(currentUrl))) {
       console.log(
         `Cycle detected at: ${currentUrl}. Stopping story chain traversal.`,
       );
@@ -41,18 +148,297 @@ export class ContentFetcher {
     return stories;
   }
 
-  async fetchStoryData(storyUrl: string): Promise<StoryData> {
-    try {
-      let html: string;
+  // Crawl the choices below a chapter breadth-first. The root itself is not
+  // returned, and any chapter whose URL key (getUrlKey) is in visitedKeys
+  // (e.g. the ancestor chain) is skipped. A choice that cannot be fetched is
+  // added to failedUrls and the crawl carries on without it.
+  async getDescendants(
+    root: StoryData,
+    maxDepth: number = Infinity,
+    visitedKeys: Set<string> = new Set(),
+    failedUrls: string[] = [],
+  ): Promise<StoryData[]> {
+    const descendants: StoryData[] = [];
+    let failed = 0;
+    let level: StoryData[] = [root];
+    visitedKeys.add(getUrlKey(root.url));
 
-      if (this.usePuppeteer && this.page) {
-        // Use Puppeteer to fetch the page
-        html = await this.fetchWithPuppeteer(storyUrl);
-      } else {
-        // Fallback to direct HTTP request
-        html = await this.fetchWithHttp(storyUrl);
+    // Siblings on one level are fetched in parallel; the scheduler keeps the
+    // request rate in check
+    for (let depth = 1; depth <= maxDepth && level.length > 0; depth++) {
+      const childUrls: string[] = [];
+      for (const story of level) {
+        for (const { url: childUrl } of story.choices) {
+          if (!visitedKeys.has(getUrlKey(childUrl))) {
+            visitedKeys.add(getUrlKey(childUrl));
+            childUrls.push(childUrl);
+          }
+        }
+      }
+
+      const results = await Promise.allSettled(
+        childUrls.map((childUrl) => {
+          console.log(`Fetching choice (depth ${depth}): ${childUrl}`);
+          return this.fetchStoryData(childUrl);
+        }),
+      );
+
+      // Only failures of a single chapter are skipped
+      const fatal = results.find(
+        (result): result is PromiseRejectedResult =>
+          result.status === 'rejected' && isRunFatalError(result.reason),
+      );
+      if (fatal) {
+        throw fatal.reason;
+      }
+
+      level = [];
+      results.forEach((result, i) => {
+        if (result.status === 'fulfilled') {
+          level.push(result.value);
+        } else {
+          console.warn(
+            `⚠️  Skipping choice ${childUrls[i]}:`,
+            result.reason instanceof Error
+              ? result.reason.message
+              : result.reason,
+          );
+          failedUrls.push(childUrls[i]);
+          failed++;
+        }
+      });
+      descendants.push(...level);
+    }
+
+    console.log(
+      `Found ${descendants.length} descendant chapters${failed > 0 ? ` (${failed} could not be fetched)` : ''}`,
+    );
+    return descendants;
+  }
+
+  // Read a /story/ landing page: its title, the intro chapter and every
+  // chapter listed in its table of contents
+  async fetchStoryIndex(storyUrl: string): Promise<StoryIndex> {
+    console.log(`Fetching story index from: ${storyUrl}`);
+
+    const html = await this.fetchPage(storyUrl);
+    const $ = cheerio.load(html);
+
+    const title = sanitizeTitle(
+      $('h1.story-title').first().text().trim() ||
+        $('.story-title').first().text().trim() ||
+        $('h1').first().text().trim() ||
+        $('title').text().replace(' - CHYOA', '').trim() ||
+        'Untitled Story',
+    );
+
+    const chapterLinks = $('a[href*="/chapter/"]')
+      .map((_, link) => ({
+        url: makeAbsoluteUrl($(link).attr('href') || ''),
+        text: $(link).text().trim(),
+      }))
+      .get()
+      .filter((link) => getChapterIdFromUrl(link.url));
+
+    // The intro is the "start reading" link; a story page that carries the
+    // chapter text itself is its own intro
+    const introLink =
+      chapterLinks.find((link) =>
+        /\b(start|begin|read|intro)/i.test(link.text),
+      ) || chapterLinks[0];
+    let introUrl = introLink?.url;
+    if (!introUrl && $('.chapter-content').length > 0) {
+      introUrl = storyUrl;
+    }
+    if (!introUrl) {
+      throw new NotFoundError(
+        `Could not find the intro chapter on story page ${storyUrl}`,
+        storyUrl,
+      );
+    }
+
+    // Keyed by chapter so links with different slugs collapse into one
+    const chapterUrls = new Map(
+      chapterLinks.map((link) => [getUrlKey(link.url), link.url]),
+    );
+    const tocHref = $('a')
+      .filter(
+        (_, link) =>
+          ($(link).attr('href') || '').includes('table-of-contents') ||
+          /table of contents/i.test($(link).text()),
+      )
+      .first()
+      .attr('href');
+
+    if (tocHref) {
+      for (const url of await this.fetchTableOfContents(
+        makeAbsoluteUrl(tocHref),
+      )) {
+        if (!chapterUrls.has(getUrlKey(url))) {
+          chapterUrls.set(getUrlKey(url), url);
+        }
+      }
+    }
+
+    console.log(
+      `Found story "${title}" with ${chapterUrls.size} listed chapters`,
+    );
+
+    return {
+      url: storyUrl,
+      title,
+      introUrl,
+      chapterUrls: Array.from(chapterUrls.values()),
+    };
+  }
+
+  // Collect chapter links from a (paginated) table of contents
+  private async fetchTableOfContents(tocUrl: string): Promise<string[]> {
+    const chapterUrls: string[] = [];
+
+    await this.crawlPaginated(tocUrl, ($) => {
+      $('a[href*="/chapter/"]').each((_, link) => {
+        const url = makeAbsoluteUrl($(link).attr('href') || '');
+        if (
+          getChapterIdFromUrl(url) &&
+          !chapterUrls.some(
+            (chapterUrl) => getUrlKey(chapterUrl) === getUrlKey(url),
+          )
+        ) {
+          chapterUrls.push(url);
+        }
+      });
+    });
+
+    return chapterUrls;
+  }
+
+  // Read an author's profile and its story/chapter listing tabs. Chapters
+  // that belong to one of the author's own stories are left out, since the
+  // story download already covers them.
+  async fetchUserListing(user: string): Promise<UserListing> {
+    const profileUrl = getUserProfileUrl(user);
+    console.log(`Fetching user profile: ${profileUrl}`);
+
+    const $profile = cheerio.load(await this.fetchPage(profileUrl));
+    const name =
+      cleanHtmlEntities($profile('h1').first().text()) ||
+      decodeURIComponent(profileUrl.split('/user/')[1]);
+
+    const listingUrls = new Set<string>([profileUrl]);
+    $profile('a').each((_, link) => {
+      const url = makeAbsoluteUrl($profile(link).attr('href') || '').split(
+        /[?#]/,
+      )[0];
+      if (url.startsWith(`${profileUrl}/`) && /(stories|chapters)/i.test(url)) {
+        listingUrls.add(url);
       }
+    });
+
+    const storyUrls: string[] = [];
+    const chapters: Array<{ url: string; storyId?: string }> = [];
+
+    for (const listingUrl of listingUrls) {
+      // Story links on a chapter listing point at other authors' stories
+      const isChapterListing = /chapters/i.test(listingUrl);
+
+      await this.crawlPaginated(listingUrl, ($) => {
+        if (!isChapterListing) {
+          $('a[href*="/story/"]').each((_, link) => {
+            const url = getStoryBaseUrl(
+              makeAbsoluteUrl($(link).attr('href') || ''),
+            );
+            if (
+              getStoryIdFromUrl(url) &&
+              !storyUrls.some(
+                (storyUrl) => getUrlKey(storyUrl) === getUrlKey(url),
+              )
+            ) {
+              storyUrls.push(url);
+            }
+          });
+        }
+
+        $('a[href*="/chapter/"]').each((_, link) => {
+          const url = makeAbsoluteUrl($(link).attr('href') || '');
+          if (
+            !getChapterIdFromUrl(url) ||
+            chapters.some(
+              (chapter) => getUrlKey(chapter.url) === getUrlKey(url),
+            )
+          ) {
+            return;
+          }
+
+          // The listing row usually names the story the chapter belongs to
+          const storyHref = $(link)
+            .closest('li, tr, article, .story-item, .chapter-item')
+            .find('a[href*="/story/"]')
+            .first()
+            .attr('href');
+          chapters.push({
+            url,
+            storyId: storyHref
+              ? getStoryIdFromUrl(makeAbsoluteUrl(storyHref))
+              : undefined,
+          });
+        });
+      });
+    }
+
+    const ownStoryIds = new Set(storyUrls.map(getStoryIdFromUrl));
+    const chapterUrls = chapters
+      .filter(
+        (chapter) => !chapter.storyId || !ownStoryIds.has(chapter.storyId),
+      )
+      .map((chapter) => chapter.url);
+
+    console.log(
+      `Found ${storyUrls.length} stories and ${chapterUrls.length} contributed chapters by ${name}`,
+    );
+
+    return { name, profileUrl, storyUrls, chapterUrls };
+  }
+
+  // Visit a listing page and every page reached through its "next" links
+  private async crawlPaginated(
+    startUrl: string,
+    visit: ($: cheerio.CheerioAPI) => void,
+  ): Promise<void> {
+    const visitedPages = new Set<string>();
+    let pageUrl: string | undefined = startUrl;
+
+    while (pageUrl && !visitedPages.has(pageUrl)) {
+      console.log(`Fetching listing page: ${pageUrl}`);
+      visitedPages.add(pageUrl);
+
+      const $ = cheerio.load(await this.fetchPage(pageUrl));
+      visit($);
+
+      const nextHref =
+        $('a[rel="next"]').first().attr('href') ||
+        $('.pagination a')
+          .filter((_, link) => /next|»/i.test($(link).text()))
+          .first()
+          .attr('href');
+      pageUrl = nextHref ? makeAbsoluteUrl(nextHref) : undefined;
+    }
+  }
 
+  // With refresh set the cache is bypassed (but still updated)
+  async fetchStoryData(
+    storyUrl: string,
+    options: { refresh?: boolean } = {},
+  ): Promise<StoryData> {
+    const known = options.refresh
+      ? undefined
+      : this.storyStore?.getStory(storyUrl);
+    if (known) {
+      return known;
+    }
+
+    try {
+      const html = await this.fetchPage(storyUrl, options.refresh);
       const $ = cheerio.load(html);
 
       // Extract story title - try multiple selectors for CHYOA
@@ -100,34 +486,76 @@ export class ContentFetcher {
 
       // Find parent story link - look for "Previous Chapter" only
       let parentUrl: string | undefined;
-      const currentStoryId = storyUrl.split('/').pop()?.split('.')[1]; // Extract story ID
+      const currentChapterId = getChapterIdFromUrl(storyUrl);
 
       // Only look for "Previous Chapter" link - this is the most reliable indicator of story chain
       $('a').each((_, link) => {
         const href = $(link).attr('href');
         const text = $(link).text().trim();
 
-        if (
-          href &&
-          href.includes('/chapter/') &&
-          href !== storyUrl &&
-          text === 'Previous Chapter'
-        ) {
-          const linkStoryId = href.split('/').pop()?.split('.')[1];
-          if (linkStoryId && linkStoryId !== currentStoryId) {
+        if (href && text === 'Previous Chapter') {
+          const linkChapterId = getChapterIdFromUrl(makeAbsoluteUrl(href));
+          if (linkChapterId && linkChapterId !== currentChapterId) {
             parentUrl = makeAbsoluteUrl(href);
             return false; // Break out of loop
           }
         }
       });
 
-      return {
-        url: storyUrl,
+      // Extract the question shown below the chapter and the choices offered
+      const question =
+        cleanHtmlEntities(
+          $('.question-header').first().text() ||
+            $('.question h2').first().text(),
+        ) || undefined;
+
+      const choices: StoryChoice[] = [];
+      $('.question-content a').each((_, link) => {
+        const href = $(link).attr('href');
+        const text = cleanHtmlEntities($(link).text());
+
+        if (!href || !href.includes('/chapter/')) {
+          return;
+        }
+
+        // Skip "add a chapter" style links that do not point at a chapter
+        const absoluteUrl = makeAbsoluteUrl(href);
+        const chapterId = getChapterIdFromUrl(absoluteUrl);
+        if (
+          !chapterId ||
+          chapterId === currentChapterId ||
+          choices.some((choice) => choice.chapterId === chapterId)
+        ) {
+          return;
+        }
+
+        choices.push({
+          text: text || 'Untitled choice',
+          url: absoluteUrl,
+          chapterId,
+        });
+      });
+
+      // Chapters requested by bare ID take their real URL from the page
+      const canonicalHref = $('link[rel="canonical"]').attr('href');
+      const url =
+        canonicalHref &&
+        getChapterIdFromUrl(makeAbsoluteUrl(canonicalHref)) === currentChapterId
+          ? makeAbsoluteUrl(canonicalHref)
+          : normalizeUrl(storyUrl);
+
+      const storyData: StoryData = {
+        url,
         title: sanitizeTitle(title),
         content,
         images,
         parentUrl,
+        question,
+        choices,
+        metadata: this.extractMetadata($, url, content),
       };
+      this.storyStore?.addStory(storyData);
+      return storyData;
     } catch (error) {
       console.error(`Error fetching story data from ${storyUrl}:`);
       if (error instanceof Error) {
@@ -137,69 +565,599 @@ export class ContentFetcher {
     }
   }
 
-  private async fetchWithPuppeteer(storyUrl: string): Promise<string> {
+  // Fetch image bytes through the cache, using the authenticated browser
+  // session when available. Returns null when the server refuses the image.
+  async fetchImage(imageUrl: string): Promise<Buffer | null> {
+    const cached = await this.cache?.getImage(imageUrl, this.offline);
+    if (cached) {
+      console.log(`📦 Using cached image: ${imageUrl}`);
+      return cached;
+    }
+
+    const captured = this.capturedImages.get(getUrlKey(imageUrl));
+    if (captured) {
+      this.capturedImages.delete(getUrlKey(imageUrl));
+      console.log(`📸 Using image loaded with its chapter: ${imageUrl}`);
+      return captured;
+    }
+
+    if (this.offline) {
+      throw new CacheMissError(
+        `Offline mode: image ${imageUrl} is not in the cache. Run once without --offline to download it.`,
+        imageUrl,
+      );
+    }
+
+    const buffer = await this.withChallengeHandoff(imageUrl, () =>
+      withRetry(
+        () =>
+          this.scheduler.schedule(() =>
+            this.fetchWithStrategy(
+              imageUrl,
+              () => this.fetchImageWithHttp(imageUrl),
+              (page) => this.fetchImageWithPuppeteer(page, imageUrl),
+            ),
+          ),
+        this.retryPolicy,
+        imageUrl,
+      ),
+    );
+
+    if (buffer && buffer.length > 0) {
+      await this.cache?.setImage(imageUrl, buffer);
+    }
+
+    return buffer;
+  }
+
+  private async fetchPage(storyUrl: string, refresh = false): Promise<string> {
+    const cached = refresh
+      ? null
+      : await this.cache?.getPage(storyUrl, this.offline);
+    if (cached) {
+      console.log(`📦 Using cached page: ${storyUrl}`);
+      return cached;
+    }
+
+    if (this.offline) {
+      throw new CacheMissError(
+        `Offline mode: ${storyUrl} is not in the cache. Run once without --offline to download it.`,
+        storyUrl,
+      );
+    }
+
+    const html = await this.withChallengeHandoff(storyUrl, () =>
+      withRetry(
+        () =>
+          this.scheduler.schedule(() =>
+            this.fetchWithStrategy(
+              storyUrl,
+              () => this.fetchWithHttp(storyUrl),
+              (page) => this.fetchWithPuppeteer(page, storyUrl),
+            ),
+          ),
+        this.retryPolicy,
+        storyUrl,
+      ),
+    );
+
+    await this.cache?.setPage(storyUrl, html);
+    return html;
+  }
+
+  // Browser mode loads everything in the browser and HTTP mode never uses
+  // it. Hybrid mode fetches over HTTP with the browser's session and only
+  // hands a URL to the browser when Cloudflare challenges the request.
+  private async fetchWithStrategy<T>(
+    url: string,
+    viaHttp: () => Promise<T>,
+    viaBrowser: (page: Page) => Promise<T>,
+  ): Promise<T> {
+    if (!this.usePuppeteer || !this.page) {
+      return viaHttp();
+    }
+    if (!this.hybrid) {
+      return this.withPage(viaBrowser);
+    }
+
+    await this.adoptBrowserSession();
+    try {
+      return await viaHttp();
+    } catch (error) {
+      if (!(error instanceof CloudflareChallengeError)) {
+        throw error;
+      }
+
+      console.log(`🛡️  Challenged over HTTP, loading in the browser: ${url}`);
+      const result = await this.withPage(viaBrowser);
+      // The browser now holds a fresh clearance cookie
+      await this.copyBrowserCookies();
+      return result;
+    }
+  }
+
+  // A challenge the headless browser gave up on is handed to onChallenge
+  // once; when it got solved the same request is made again, so the
+  // download carries on from where it stopped
+  private async withChallengeHandoff<T>(
+    url: string,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (
+        !(error instanceof CloudflareChallengeError) ||
+        !this.usePuppeteer ||
+        !this.page ||
+        !this.onChallenge ||
+        !(await this.onChallenge(url))
+      ) {
+        throw error;
+      }
+
+      // Hybrid mode sends the new clearance over HTTP as well
+      await this.copyBrowserCookies();
+      console.log(`🔄 Continuing headless download: ${url}`);
+      return operation();
+    }
+  }
+
+  // Pass the Cloudflare challenge once in the browser and take over its
+  // cookies and exact user agent for HTTP requests
+  private adoptBrowserSession(): Promise<void> {
+    if (!this.browserSessionReady) {
+      this.browserSessionReady = this.withPage(async (page) => {
+        console.log('🛡️  Getting Cloudflare clearance in the browser...');
+        await this.fetchWithPuppeteer(page, BASE_URL);
+        this.userAgent = await page.evaluate(() => navigator.userAgent);
+        await this.copyBrowserCookies();
+      });
+      // Let a later request try again if this attempt failed
+      this.browserSessionReady.catch(() => {
+        this.browserSessionReady = null;
+      });
+    }
+    return this.browserSessionReady;
+  }
+
+  private async copyBrowserCookies(): Promise<void> {
+    if (!this.page) {
+      return;
+    }
+
+    const cookies = await this.page.browser().cookies();
+    this.cookieJar.addCookies(cookies.map(fromBrowserCookie));
+  }
+
+  // Run a browser task on an idle tab, opening another tab of the same
+  // browser when all are busy. The scheduler bounds how many get opened.
+  private async withPage<T>(task: (page: Page) => Promise<T>): Promise<T> {
     if (!this.page) {
       throw new Error('Browser not initialized');
     }
 
-    console.log(`Fetching with browser: ${storyUrl}`);
+    let page = this.idlePages.pop();
+    if (!page) {
+      page = await this.page.browser().newPage();
+      await page.setViewport({ width: 1366, height: 768 });
+      await page.setUserAgent(DEFAULT_USER_AGENT);
+      const proxyCredentials = this.proxy?.getBrowserCredentials();
+      if (proxyCredentials) {
+        await page.authenticate(proxyCredentials);
+      }
+    }
 
-    // Add human-like delay
-    await randomDelay();
+    await this.blockUnneededResources(page);
 
     try {
-      // Navigate to the story page
-      const response = await this.page.goto(storyUrl, {
-        waitUntil: 'networkidle0',
-        timeout: 30000,
-      });
+      return await task(page);
+    } finally {
+      this.idlePages.push(page);
+    }
+  }
+
+  private async fetchImageWithPuppeteer(
+    page: Page,
+    imageUrl: string,
+  ): Promise<Buffer | null> {
+    console.log(`Downloading image via browser: ${imageUrl}`);
 
-      if (!response) {
-        throw new Error('Failed to load page');
+    const inPage = await this.fetchImageInPage(page, imageUrl);
+    if (inPage) {
+      if (inPage.data) {
+        return Buffer.from(inPage.data, 'base64');
+      }
+      if (inPage.status === 429 || inPage.status >= 500) {
+        this.throwForStatus(inPage.status, imageUrl, '');
       }
+      console.warn(`Failed to load image ${imageUrl}: HTTP ${inPage.status}`);
+      return null;
+    }
 
-      // Wait a bit more for any dynamic content
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+    // Last resort: navigate the tab to the image itself
+    const response = await this.navigate(page, imageUrl, 15000);
 
-      // Check if we're still being challenged
-      const title = await this.page.title();
-      if (title.includes('Just a moment')) {
-        // Wait longer for Cloudflare challenge to complete
-        console.log('Waiting for Cloudflare challenge to complete...');
-        await new Promise((resolve) => setTimeout(resolve, 10000));
+    if (!response.ok()) {
+      if (response.status() === 429 || response.status() >= 500) {
+        this.throwForStatus(
+          response.status(),
+          imageUrl,
+          '',
+          response.headers()['retry-after'],
+        );
+      }
+      console.warn(
+        `Failed to load image ${imageUrl}: HTTP ${response.status()}`,
+      );
+      return null;
+    }
 
-        // Check if challenge completed
-        const newTitle = await this.page.title();
-        if (newTitle.includes('Just a moment')) {
-          throw new Error(
-            'Cloudflare challenge did not complete. The page may require manual verification.',
+    return await response.buffer();
+  }
+
+  // Fetch an image from inside the tab, which sends the session cookies and
+  // keeps the chapter page loaded. Returns null when the page cannot read it
+  // (no page loaded yet, or a cross-origin image without CORS headers).
+  private async fetchImageInPage(
+    page: Page,
+    imageUrl: string,
+  ): Promise<{ status: number; data?: string } | null> {
+    if (!page.url().startsWith('http')) {
+      return null;
+    }
+
+    return page.evaluate(async (url) => {
+      try {
+        const response = await fetch(url, { credentials: 'include' });
+        if (!response.ok) {
+          return { status: response.status };
+        }
+
+        // Base64 in chunks; spreading a large array overflows the stack
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return { status: response.status, data: btoa(binary) };
+      } catch (error) {
+        return null;
+      }
+    }, imageUrl);
+  }
+
+  // Keep the chapter images the browser already downloaded while loading the
+  // page, so they need no request of their own later
+  private async captureChapterImages(
+    page: Page,
+    imageResponses: Map<string, HTTPResponse>,
+  ): Promise<void> {
+    const sources = await page.$$eval('.chapter-content img', (images) =>
+      images.map((image) => image.getAttribute('src') || ''),
+    );
+
+    for (const src of sources) {
+      if (!src || !isValidStoryImage(src)) {
+        continue;
+      }
+
+      const imageUrl = makeAbsoluteUrl(src);
+      const response = imageResponses.get(getUrlKey(imageUrl));
+      const buffer = await response?.buffer().catch(() => null);
+      if (!buffer || buffer.length === 0) {
+        continue;
+      }
+
+      if (this.cache) {
+        await this.cache.setImage(imageUrl, buffer);
+      } else {
+        this.capturedImages.set(getUrlKey(imageUrl), buffer);
+      }
+    }
+  }
+
+  private async fetchImageWithHttp(imageUrl: string): Promise<Buffer | null> {
+    console.log(`Downloading image: ${imageUrl}`);
+
+    try {
+      const response = await this.httpRequest(
+        imageUrl,
+        {
+          'User-Agent': this.userAgent,
+          Accept: 'image/avif,image/webp,image/*,*/*;q=0.8',
+          Referer: BASE_URL,
+        },
+        15000,
+      );
+
+      if (response.headers.get('cf-mitigated') === 'challenge') {
+        throw new CloudflareChallengeError(
+          'Image request was challenged by Cloudflare.',
+          imageUrl,
+        );
+      }
+
+      if (!response.ok) {
+        if (response.status === 429 || response.status >= 500) {
+          this.throwForStatus(
+            response.status,
+            imageUrl,
+            '',
+            response.headers.get('retry-after'),
           );
         }
+        console.warn(
+          `Failed to load image ${imageUrl}: HTTP ${response.status}`,
+        );
+        return null;
+      }
+
+      return Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+      if (error instanceof ChyoaError) {
+        throw error;
+      }
+      throw new NetworkError(
+        `Image request failed: ${error instanceof Error ? error.message : error}`,
+        { url: imageUrl },
+      );
+    }
+  }
+
+  private extractMetadata(
+    $: cheerio.CheerioAPI,
+    storyUrl: string,
+    content: string,
+  ): ChapterMetadata {
+    const metaAreas = $(METADATA_SELECTOR).filter(
+      (_, el) => $(el).closest('.chapter-content, nav').length === 0,
+    );
+    const metaText = cleanHtmlEntities(metaAreas.text());
+
+    // Author: the profile link in the chapter header, then the meta tag
+    let author: ChapterMetadata['author'];
+    const authorLink = metaAreas.find('a[href*="/user/"]').first();
+    if (authorLink.length > 0 && authorLink.text().trim()) {
+      author = {
+        name: cleanHtmlEntities(authorLink.text()),
+        profileUrl: makeAbsoluteUrl(authorLink.attr('href') || ''),
+      };
+    } else {
+      const authorName = $('meta[name="author"]').attr('content')?.trim();
+      if (authorName) {
+        author = { name: authorName };
+      }
+    }
+
+    // Dates: Open Graph article times first, then <time> elements in order
+    const times = metaAreas
+      .find('time')
+      .map((_, el) => $(el).attr('datetime') || $(el).text())
+      .get();
+    const publishedAt = toIsoDate(
+      $('meta[property="article:published_time"]').attr('content') || times[0],
+    );
+    const updatedAt = toIsoDate(
+      $('meta[property="article:modified_time"]').attr('content') || times[1],
+    );
+
+    const storyLink = $('a[href*="/story/"]')
+      .filter((_, el) => $(el).closest('.chapter-content').length === 0)
+      .first()
+      .attr('href');
+
+    const tags = new Set<string>();
+    $('.tags a, a[href*="/tag/"]')
+      .filter((_, el) => $(el).closest('.chapter-content').length === 0)
+      .each((_, el) => {
+        const tag = cleanHtmlEntities($(el).text());
+        if (tag) {
+          tags.add(tag);
+        }
+      });
+
+    const countMatch = (label: string) => {
+      const match = metaText.match(
+        new RegExp(`([\\d.,]+\\s*[km]?)\\s*${label}`, 'i'),
+      );
+      return match ? parseCount(match[1]) : undefined;
+    };
+
+    // Prefer the word count CHYOA shows, otherwise count the chapter text
+    const wordCount =
+      countMatch('words?') ?? countWords(cheerio.load(content).root().text());
+
+    return {
+      chapterId: getChapterIdFromUrl(storyUrl),
+      storyId: storyLink
+        ? getStoryIdFromUrl(makeAbsoluteUrl(storyLink))
+        : undefined,
+      author,
+      publishedAt,
+      updatedAt,
+      tags: Array.from(tags),
+      views: countMatch('(?:views?|reads?)'),
+      likes: countMatch('likes?'),
+      wordCount,
+    };
+  }
+
+  private async fetchWithPuppeteer(
+    page: Page,
+    storyUrl: string,
+  ): Promise<string> {
+    console.log(`Fetching with browser: ${storyUrl}`);
+
+    // Remember the images the page loads, keyed by URL
+    const imageResponses = new Map<string, HTTPResponse>();
+    const onResponse = (response: HTTPResponse) => {
+      if (response.request().resourceType() === 'image' && response.ok()) {
+        imageResponses.set(getUrlKey(response.url()), response);
       }
+    };
+    page.on('response', onResponse);
+
+    try {
+      // Navigate to the story page
+      const response = await this.navigate(page, storyUrl, 30000);
+      const passedChallenge = await this.waitForPageReady(page, storyUrl);
 
       // Get the page content
-      const html = await this.page.content();
+      const html = await page.content();
 
       if (html.includes('Just a moment...') || html.includes('__cf_chl_')) {
-        throw new Error(
+        throw new CloudflareChallengeError(
           'Still being challenged by Cloudflare after waiting. Try using fresh cookies or waiting longer.',
+          storyUrl,
+        );
+      }
+
+      // After a challenge the first response was the challenge page itself
+      if (!passedChallenge && !response.ok()) {
+        this.throwForStatus(
+          response.status(),
+          storyUrl,
+          html,
+          response.headers()['retry-after'],
         );
       }
 
+      await this.captureChapterImages(page, imageResponses);
+
       console.log(`✅ Successfully loaded page (${html.length} characters)`);
       return html;
     } catch (error) {
       console.error('Puppeteer navigation failed:', error);
       throw error;
+    } finally {
+      page.off('response', onResponse);
     }
   }
 
-  private async fetchWithHttp(
-    storyUrl: string,
-    sessionCookie?: string,
-  ): Promise<string> {
+  // A chapter is ready as soon as its text is in the DOM; other pages once
+  // they have loaded. A Cloudflare challenge is polled until it clears or
+  // challengeTimeout runs out. Returns whether a challenge was passed.
+  private async waitForPageReady(page: Page, url: string): Promise<boolean> {
+    const deadline = Date.now() + this.challengeTimeout;
+    let challenged = false;
+
+    for (;;) {
+      // The challenge reloads the page, which destroys the context mid-check
+      const state = await page
+        .evaluate(() => ({
+          hasChapter: document.querySelector('.chapter-content') !== null,
+          loaded: document.readyState === 'complete',
+          challenge: document.title.includes('Just a moment'),
+        }))
+        .catch(() => null);
+
+      if (state && !state.challenge && (state.hasChapter || state.loaded)) {
+        return challenged;
+      }
+
+      if (state?.challenge && !challenged) {
+        console.log('Waiting for Cloudflare challenge to complete...');
+        challenged = true;
+      }
+
+      if (Date.now() >= deadline) {
+        if (challenged) {
+          throw new CloudflareChallengeError(
+            'Cloudflare challenge did not complete. The page may require manual verification.',
+            url,
+          );
+        }
+        return false;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, READY_POLL_INTERVAL));
+    }
+  }
+
+  // Block what a download never needs: fonts, stylesheets, media, ads and
+  // analytics. Images are only kept when the browser downloads them itself
+  // (not in hybrid mode), and then only story images.
+  private async blockUnneededResources(page: Page): Promise<void> {
+    if (this.interceptedPages.has(page)) {
+      return;
+    }
+    this.interceptedPages.add(page);
+
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+      if (request.isInterceptResolutionHandled()) {
+        return;
+      }
+
+      const url = request.url();
+      const type = request.resourceType();
+      let host = '';
+      try {
+        host = new URL(url).hostname;
+      } catch (error) {
+        // data: and blob: URLs have no host
+      }
+
+      const blocked =
+        BLOCKED_RESOURCE_TYPES.includes(type) ||
+        BLOCKED_RESOURCE_HOSTS.some(
+          (blockedHost) =>
+            host === blockedHost || host.endsWith(`.${blockedHost}`),
+        ) ||
+        (type === 'image' && (this.hybrid || !isValidStoryImage(url)));
+
+      // Never interfere with the Cloudflare challenge itself
+      const isChallenge =
+        host === 'challenges.cloudflare.com' || url.includes('/cdn-cgi/');
+
+      if (blocked && !isChallenge) {
+        request.abort('blockedbyclient').catch(() => undefined);
+      } else {
+        request.continue().catch(() => undefined);
+      }
+    });
+  }
+
+  // Plain HTTP request with cookies from the jar. Redirects are followed by
+  // hand so cookies set along the way (e.g. a refreshed session) are kept.
+  private async httpRequest(
+    url: string,
+    headers: Record<string, string>,
+    timeout: number,
+  ): Promise<Response> {
+    const signal = AbortSignal.timeout(timeout);
+    let currentUrl = url;
+
+    for (let redirects = 0; ; redirects++) {
+      const cookie = this.cookieJar.getCookieHeader(currentUrl);
+      const init: RequestInit = {
+        headers: cookie ? { ...headers, Cookie: cookie } : headers,
+        redirect: 'manual',
+        signal,
+      };
+      const response = this.proxy
+        ? await this.proxy.fetch(currentUrl, init)
+        : await fetch(currentUrl, init);
+      this.cookieJar.setCookiesFromResponse(response, currentUrl);
+
+      const location = response.headers.get('location');
+      if (
+        response.status < 300 ||
+        response.status >= 400 ||
+        !location ||
+        redirects >= MAX_REDIRECTS
+      ) {
+        return response;
+      }
+
+      currentUrl = new URL(location, currentUrl).toString();
+    }
+  }
+
+  private async fetchWithHttp(storyUrl: string): Promise<string> {
     const headers: Record<string, string> = {
-      'User-Agent': DEFAULT_USER_AGENT,
+      'User-Agent': this.userAgent,
       Accept:
         'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
       'Accept-Language': 'en-US,en;q=0.5',
@@ -207,59 +1165,46 @@ export class ContentFetcher {
       'Upgrade-Insecure-Requests': '1',
     };
 
-    // Add authentication if available
-    if (sessionCookie) {
-      headers['Cookie'] = sessionCookie;
-    }
-
     // Add referer for subsequent requests (not first)
     if (storyUrl !== BASE_URL) {
       headers['Referer'] = BASE_URL;
     }
 
-    // Add small delay to appear more human-like
-    await randomDelay();
-
-    const response = await fetch(storyUrl, {
-      headers,
-      redirect: 'follow',
-      credentials: 'include',
-    });
+    let response: Response;
+    let html: string;
+    try {
+      response = await this.httpRequest(storyUrl, headers, 30000);
 
-    // Get the response content
-    const html = await response.text();
+      // Get the response content
+      html = await response.text();
+    } catch (error) {
+      throw new NetworkError(
+        `Request failed: ${error instanceof Error ? error.message : error}`,
+        { url: storyUrl },
+      );
+    }
 
     // Check if we're being redirected to a login page or blocked by Cloudflare
     if (
+      response.headers.get('cf-mitigated') === 'challenge' ||
       html.includes('Just a moment...') ||
       html.includes('__cf_chl_') ||
       html.includes('challenge-platform')
     ) {
-      throw new Error(
+      throw new CloudflareChallengeError(
         'Blocked by Cloudflare protection. Consider using --puppeteer flag or fresh cookies.',
+        storyUrl,
       );
     }
 
     // Check for specific error conditions
     if (!response.ok) {
-      if (response.status === 403) {
-        // Check if it's an authentication issue or Cloudflare
-        if (html.includes('login') && html.includes('password')) {
-          throw new Error(
-            `Authentication required. Please provide valid credentials or check your session cookie.`,
-          );
-        } else {
-          throw new Error(
-            `Access forbidden (${response.status}). This might be due to Cloudflare protection, invalid session cookie, or content restrictions.`,
-          );
-        }
-      } else if (response.status === 404) {
-        throw new Error(
-          `Story not found (${response.status}). Please check the URL.`,
-        );
-      } else {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      this.throwForStatus(
+        response.status,
+        storyUrl,
+        html,
+        response.headers.get('retry-after'),
+      );
     }
 
     if (
@@ -267,23 +1212,105 @@ export class ContentFetcher {
       html.includes('password') &&
       html.length < 10000
     ) {
-      throw new Error(
+      throw new AuthRequiredError(
         'Redirected to login page. Please provide valid authentication credentials.',
+        storyUrl,
       );
     }
 
     return html;
   }
 
+  // Navigate the browser page, reporting timeouts and connection failures as
+  // (retryable) network errors
+  private async navigate(
+    page: Page,
+    url: string,
+    timeout: number,
+  ): Promise<HTTPResponse> {
+    let response: HTTPResponse | null;
+    try {
+      // Readiness is checked separately (waitForPageReady)
+      response = await page.goto(url, {
+        waitUntil: 'domcontentloaded',
+        timeout,
+      });
+    } catch (error) {
+      throw new NetworkError(
+        `Failed to load page: ${error instanceof Error ? error.message : error}`,
+        { url },
+      );
+    }
+
+    if (!response) {
+      throw new NetworkError('Failed to load page', { url });
+    }
+
+    return response;
+  }
+
+  // Map an unsuccessful HTTP status to the matching error class
+  private throwForStatus(
+    status: number,
+    url: string,
+    html: string,
+    retryAfterHeader?: string | null,
+  ): never {
+    const retryAfter = parseRetryAfter(retryAfterHeader);
+
+    if (status === 404) {
+      throw new NotFoundError(
+        `Story not found (${status}). Please check the URL.`,
+        url,
+      );
+    }
+
+    if (status === 429) {
+      throw new RateLimitedError(
+        `Rate limited by CHYOA (${status}).`,
+        url,
+        retryAfter,
+      );
+    }
+
+    // Check if it's an authentication issue or Cloudflare
+    if (
+      status === 401 ||
+      (status === 403 && html.includes('login') && html.includes('password'))
+    ) {
+      throw new AuthRequiredError(
+        `Authentication required. Please provide valid credentials or check your session cookie.`,
+        url,
+      );
+    }
+
+    if (status === 403) {
+      throw new NetworkError(
+        `Access forbidden (${status}). This might be due to Cloudflare protection, invalid session cookie, or content restrictions.`,
+        { url, status },
+      );
+    }
+
+    throw new NetworkError(`HTTP error! status: ${status}`, {
+      url,
+      status,
+      retryAfter,
+    });
+  }
+
   // Test connectivity to CHYOA
-  static async testConnectivity(): Promise<void> {
+  static async testConnectivity(
+    proxy: ProxyRouter | null = null,
+  ): Promise<void> {
     console.log('Testing connectivity to CHYOA...');
+    if (proxy) {
+      console.log(`Using proxy: ${proxy.describe()}`);
+    }
     try {
-      const testResponse = await fetch(BASE_URL, {
-        headers: {
-          'User-Agent': DEFAULT_USER_AGENT,
-        },
-      });
+      const init = { headers: { 'User-Agent': DEFAULT_USER_AGENT } };
+      const testResponse = proxy
+        ? await proxy.fetch(BASE_URL, init)
+        : await fetch(BASE_URL, init);
       console.log(`Test response: ${testResponse.status}`);
       const testHtml = await testResponse.text();
       console.log(`Response length: ${testHtml.length} characters`);
@@ -297,7 +1324,10 @@ export class ContentFetcher {
   }
 
   // Test authentication cookies
-  static async testCookies(sessionCookie: string): Promise<void> {
+  static async testCookies(
+    sessionCookie: string,
+    proxy: ProxyRouter | null = null,
+  ): Promise<void> {
     console.log('Testing authentication cookies...');
     try {
       // Test with a simple CHYOA page that requires auth
@@ -311,7 +1341,9 @@ export class ContentFetcher {
       };
 
       console.log('Testing cookie authentication...');
-      const testResponse = await fetch(testUrl, { headers });
+      const testResponse = proxy
+        ? await proxy.fetch(testUrl, { headers })
+        : await fetch(testUrl, { headers });
       const testHtml = await testResponse.text();
 
       console.log(`Response status: ${testResponse.status}`);
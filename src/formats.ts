@@ -0,0 +1,43 @@
+import { createHash } from 'crypto';
+import type { StoryData } from './types.js';
+import { getUrlKey } from './utils.js';
+
+// Helpers shared by the export formats written in one piece at the end of a
+// run (EPUB, HTML reader, Twee)
+
+// A chapter with its position in download order
+export interface ExportChapter {
+  story: StoryData;
+  index: number;
+}
+
+// Maps an image URL to its downloaded file (relative to the output
+// directory), or undefined when it was not downloaded
+export type ResolveImage = (src: string) => string | undefined;
+
+// Safe in HTML and XML text and in double-quoted attributes
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function getChapterId(index: number): string {
+  return `chapter-${String(index + 1).padStart(3, '0')}`;
+}
+
+// Name-based UUID (version 5, RFC 4122 variant) derived from the story URL,
+// so every export of the same story gets the same one
+export function getStoryUuid(storyUrl: string): string {
+  const hex = createHash('sha1').update(getUrlKey(storyUrl)).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+// Downloaded file names are kept as they are, so they are escaped where
+// used as URLs
+export function encodeFilePath(name: string): string {
+  return name.split('/').map(encodeURIComponent).join('/');
+}
@@ -6,6 +6,7 @@ export { ChyoaDownloader } from './cli';
 export { AuthManager } from './auth';
 export { ContentFetcher } from './fetcher';
 export { StoryExporter } from './exporter';
+export * from './errors';
 export * from './types';
 export * from './utils';
 
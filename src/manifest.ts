@@ -0,0 +1,398 @@
+import { createHash } from 'crypto';
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import type {
+  DownloadStatus,
+  ImageRecord,
+  ManifestChapter,
+  ManifestOptions,
+  StoryData,
+  StoryManifestData,
+  StoryStore,
+} from './types.js';
+import { getUrlKey } from './utils.js';
+
+export const MANIFEST_FILE = 'manifest.json';
+// Chapter snapshots live in their own files, so progress updates only
+// rewrite the (small) manifest
+const STORIES_DIR = '.chapters';
+const MANIFEST_VERSION = 1;
+// Progress updates are batched into at most one write per interval
+const SAVE_DELAY_MS = 1000;
+
+// Tracks which chapters and images of a story download have finished, so an
+// interrupted run can pick up where it stopped
+export class StoryManifest implements StoryStore {
+  private manifestFile: string;
+  private data: StoryManifestData;
+  private chapters: Map<string, ManifestChapter>; // By URL key
+  private stories = new Map<string, StoryData>();
+  private unsavedStories = new Set<string>();
+  private pendingSave: Promise<void> = Promise.resolve();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor(manifestFile: string, data: StoryManifestData) {
+    this.manifestFile = manifestFile;
+    this.data = data;
+    this.chapters = new Map(
+      data.chapters.map((chapter) => [getUrlKey(chapter.url), chapter]),
+    );
+  }
+
+  // Starts empty; chapters are added as discovery finds them
+  static create(
+    outputDir: string,
+    storyUrl: string,
+    title: string,
+    options: ManifestOptions,
+  ): StoryManifest {
+    const now = Date.now();
+
+    return new StoryManifest(path.join(outputDir, MANIFEST_FILE), {
+      version: MANIFEST_VERSION,
+      storyUrl,
+      title,
+      options,
+      discoveryComplete: false,
+      createdAt: now,
+      updatedAt: now,
+      chapters: [],
+    });
+  }
+
+  static async load(outputDir: string): Promise<StoryManifest | null> {
+    const manifestFile = path.join(outputDir, MANIFEST_FILE);
+    if (!existsSync(manifestFile)) {
+      return null;
+    }
+
+    try {
+      const data: StoryManifestData = JSON.parse(
+        await fs.readFile(manifestFile, 'utf-8'),
+      );
+      if (data.version !== MANIFEST_VERSION) {
+        console.warn(
+          `Ignoring manifest with unsupported version ${data.version}: ${manifestFile}`,
+        );
+        return null;
+      }
+      // Manifests written before --format existed are markdown downloads
+      data.options.format ??= 'markdown';
+
+      const manifest = new StoryManifest(manifestFile, data);
+      for (const chapter of data.chapters) {
+        manifest.stories.set(
+          getUrlKey(chapter.url),
+          JSON.parse(
+            await fs.readFile(path.join(outputDir, chapter.storyFile), 'utf-8'),
+          ),
+        );
+      }
+      return manifest;
+    } catch (error) {
+      console.warn(`Ignoring unreadable manifest ${manifestFile}:`, error);
+      return null;
+    }
+  }
+
+  // Directories at or up to two levels below rootDir (story directories of
+  // a --user download) that hold a manifest
+  static async findAll(rootDir: string, maxDepth = 2): Promise<string[]> {
+    if (existsSync(path.join(rootDir, MANIFEST_FILE))) {
+      return [rootDir];
+    }
+    if (maxDepth === 0 || !existsSync(rootDir)) {
+      return [];
+    }
+
+    const entries = await fs.readdir(rootDir, { withFileTypes: true });
+    const found: string[] = [];
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        found.push(
+          ...(await StoryManifest.findAll(
+            path.join(rootDir, entry.name),
+            maxDepth - 1,
+          )),
+        );
+      }
+    }
+    return found;
+  }
+
+  // A manifest can only be resumed by a run for the same URL and export options
+  matches(storyUrl: string, options: ManifestOptions): boolean {
+    return (
+      getUrlKey(this.data.storyUrl) === getUrlKey(storyUrl) &&
+      (Object.keys(options) as Array<keyof ManifestOptions>).every(
+        (key) => this.data.options[key] === options[key],
+      )
+    );
+  }
+
+  isComplete(): boolean {
+    return (
+      this.isDiscoveryComplete() &&
+      this.data.chapters.every(
+        (chapter) =>
+          chapter.status === 'done' &&
+          chapter.images.every((image) => image.status === 'done'),
+      )
+    );
+  }
+
+  isDiscoveryComplete(): boolean {
+    return this.data.discoveryComplete;
+  }
+
+  getStoryUrl(): string {
+    return this.data.storyUrl;
+  }
+
+  getTitle(): string {
+    return this.data.title;
+  }
+
+  getOptions(): ManifestOptions {
+    return this.data.options;
+  }
+
+  getOutputDir(): string {
+    return path.dirname(this.manifestFile);
+  }
+
+  getStories(): StoryData[] {
+    return this.data.chapters.map((chapter) =>
+      structuredClone(this.getSnapshot(chapter.url)),
+    );
+  }
+
+  getStory(url: string): StoryData | undefined {
+    const story = this.stories.get(getUrlKey(url));
+    return story && structuredClone(story);
+  }
+
+  getChapters(): ManifestChapter[] {
+    return this.data.chapters;
+  }
+
+  getCompletedCount(): number {
+    return this.data.chapters.filter((chapter) => chapter.status === 'done')
+      .length;
+  }
+
+  isChapterDone(url: string): boolean {
+    return this.getChapter(url)?.status === 'done';
+  }
+
+  // The chapter's own file from the last time it was saved, if any
+  getChapterFile(url: string): string | undefined {
+    return this.getChapter(url)?.file;
+  }
+
+  getDoneImages(chapterUrl: string): Set<string> {
+    const images = this.getChapter(chapterUrl)?.images || [];
+    return new Set(
+      images
+        .filter((image) => image.status === 'done')
+        .map((image) => image.url),
+    );
+  }
+
+  markChapter(url: string, status: DownloadStatus, file?: string): void {
+    const chapter = this.getChapter(url);
+    if (!chapter) {
+      return;
+    }
+
+    chapter.status = status;
+    if (file) {
+      chapter.file = file;
+    }
+    chapter.updatedAt = Date.now();
+    this.scheduleSave();
+  }
+
+  recordImage(chapterUrl: string, record: ImageRecord): void {
+    const chapter = this.getChapter(chapterUrl);
+    if (!chapter) {
+      return;
+    }
+
+    const existing = chapter.images.find((image) => image.url === record.url);
+    if (existing) {
+      Object.assign(existing, record);
+    } else {
+      chapter.images.push(record);
+    }
+    chapter.updatedAt = Date.now();
+    this.scheduleSave();
+  }
+
+  // Record a chapter found during discovery
+  addStory(story: StoryData): void {
+    if (this.addChapter(story, Date.now())) {
+      this.scheduleSave();
+    }
+  }
+
+  // Replace a chapter whose page changed; it will be saved again
+  async updateChapter(story: StoryData): Promise<void> {
+    const chapter = this.getChapter(story.url);
+    if (!chapter) {
+      return;
+    }
+
+    chapter.title = story.title;
+    chapter.status = 'pending';
+    chapter.images = story.images.map(
+      (url) =>
+        chapter.images.find((image) => image.url === url) || {
+          url,
+          status: 'pending',
+        },
+    );
+    this.setSnapshot(story);
+    chapter.updatedAt = Date.now();
+    await this.save();
+  }
+
+  async addChapters(stories: StoryData[]): Promise<void> {
+    const now = Date.now();
+    for (const story of stories) {
+      this.addChapter(story, now);
+    }
+    await this.save();
+  }
+
+  // Discovery has finished: keep the chapters in the order it returned them
+  async completeDiscovery(stories: StoryData[]): Promise<void> {
+    const now = Date.now();
+    for (const story of stories) {
+      this.addChapter(story, now);
+    }
+
+    this.data.chapters = stories.flatMap((story) => {
+      const chapter = this.getChapter(story.url);
+      return chapter ? [chapter] : [];
+    });
+    this.chapters = new Map(
+      this.data.chapters.map((chapter) => [getUrlKey(chapter.url), chapter]),
+    );
+    this.data.discoveryComplete = true;
+    await this.save();
+  }
+
+  async setOutputFile(file: string): Promise<void> {
+    this.data.outputFile = file;
+    await this.save();
+  }
+
+  // Writes are serialized and go through a temporary file, so an interrupted
+  // run never leaves a half-written manifest behind. Chapter snapshots are
+  // written before the manifest that refers to them.
+  save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    this.pendingSave = this.pendingSave
+      .catch(() => undefined)
+      .then(async () => {
+        const outputDir = this.getOutputDir();
+        const keys = new Set(this.unsavedStories);
+        this.unsavedStories.clear();
+        try {
+          for (const key of keys) {
+            const chapter = this.chapters.get(key);
+            if (chapter) {
+              await writeAtomically(
+                path.join(outputDir, chapter.storyFile),
+                JSON.stringify(this.stories.get(key)),
+              );
+            }
+          }
+        } catch (error) {
+          keys.forEach((key) => this.unsavedStories.add(key));
+          throw error;
+        }
+
+        this.data.updatedAt = Date.now();
+        await writeAtomically(
+          this.manifestFile,
+          JSON.stringify(this.data, null, 2),
+        );
+      });
+    return this.pendingSave;
+  }
+
+  // Write out any batched updates
+  flush(): Promise<void> {
+    return this.saveTimer ? this.save() : this.pendingSave;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.save().catch((error) =>
+        console.warn(`Could not update manifest ${this.manifestFile}:`, error),
+      );
+    }, SAVE_DELAY_MS);
+  }
+
+  // Returns whether the chapter was new
+  private addChapter(story: StoryData, now: number): boolean {
+    const key = getUrlKey(story.url);
+    if (this.chapters.has(key)) {
+      return false;
+    }
+
+    const chapter: ManifestChapter = {
+      url: story.url,
+      title: story.title,
+      status: 'pending',
+      images: story.images.map((url) => ({ url, status: 'pending' })),
+      storyFile: getStoryFile(story.url),
+      updatedAt: now,
+    };
+    this.data.chapters.push(chapter);
+    this.chapters.set(key, chapter);
+    this.setSnapshot(story);
+    return true;
+  }
+
+  // Snapshot the story so later in-place edits (embedded images) stay out
+  private setSnapshot(story: StoryData): void {
+    const key = getUrlKey(story.url);
+    this.stories.set(key, structuredClone(story));
+    this.unsavedStories.add(key);
+  }
+
+  private getSnapshot(url: string): StoryData {
+    const story = this.stories.get(getUrlKey(url));
+    if (!story) {
+      throw new Error(`No saved chapter data for ${url}`);
+    }
+    return story;
+  }
+
+  private getChapter(url: string): ManifestChapter | undefined {
+    return this.chapters.get(getUrlKey(url));
+  }
+}
+
+function getStoryFile(url: string): string {
+  const hash = createHash('sha1').update(getUrlKey(url)).digest('hex');
+  return `${STORIES_DIR}/${hash.slice(0, 16)}.json`;
+}
+
+async function writeAtomically(file: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.tmp`;
+  await fs.writeFile(tempFile, content, 'utf-8');
+  await fs.rename(tempFile, file);
+}
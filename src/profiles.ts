@@ -0,0 +1,246 @@
+import { existsSync, promises as fs, readFileSync, unlinkSync } from 'fs';
+import path from 'path';
+import { CONFIG_DIR, ensureDirectory } from './utils.js';
+
+export const DEFAULT_PROFILE = 'default';
+const ACTIVE_PROFILE_FILE = 'active-profile';
+const OPTIONS_FILE = 'options.json';
+const LOCK_FILE = 'profile.lock';
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// Named accounts, each with its own session (and HTTP cookie jar), default
+// CLI options and lock. The default profile keeps the files directly in the
+// config directory, where they lived before profiles existed.
+export class ProfileStore {
+  private configDir: string;
+  private lockFile: string | null = null;
+
+  constructor(configDir: string = CONFIG_DIR) {
+    this.configDir = configDir;
+  }
+
+  // An explicit --profile wins over the one chosen with `profile use`
+  resolve(name?: string): string {
+    if (name) {
+      return name;
+    }
+
+    const activeFile = path.join(this.configDir, ACTIVE_PROFILE_FILE);
+    const active = existsSync(activeFile)
+      ? readFileSync(activeFile, 'utf-8').trim()
+      : '';
+    return active || DEFAULT_PROFILE;
+  }
+
+  exists(name: string): boolean {
+    return name === DEFAULT_PROFILE || existsSync(this.getDir(name));
+  }
+
+  // Every path of a profile is built here, so the name is checked here too:
+  // anything else (such as "../..") could point outside the profiles
+  getDir(name: string): string {
+    if (name !== DEFAULT_PROFILE && !PROFILE_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid profile name "${name}" (use letters, digits, "-" and "_")`,
+      );
+    }
+
+    return name === DEFAULT_PROFILE
+      ? this.configDir
+      : path.join(this.configDir, 'profiles', name);
+  }
+
+  getSessionFile(name: string): string {
+    return path.join(this.getDir(name), 'session.json');
+  }
+
+  getOptionsFile(name: string): string {
+    return path.join(this.getDir(name), OPTIONS_FILE);
+  }
+
+  // Default CLI options of a profile, keyed by option name as on the command
+  // line. Read synchronously because they feed the argument parser.
+  loadOptions(name: string): Record<string, unknown> {
+    const optionsFile = this.getOptionsFile(name);
+    if (!existsSync(optionsFile)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(readFileSync(optionsFile, 'utf-8'));
+    } catch (error) {
+      console.warn(`Ignoring unreadable profile options ${optionsFile}`);
+      return {};
+    }
+  }
+
+  async list(): Promise<string[]> {
+    const profilesDir = path.join(this.configDir, 'profiles');
+    const names = existsSync(profilesDir)
+      ? (await fs.readdir(profilesDir, { withFileTypes: true }))
+          .filter(
+            (entry) =>
+              entry.isDirectory() && PROFILE_NAME_PATTERN.test(entry.name),
+          )
+          .map((entry) => entry.name)
+          .sort()
+      : [];
+    return [DEFAULT_PROFILE, ...names];
+  }
+
+  async create(name: string): Promise<void> {
+    if (this.exists(name)) {
+      throw new Error(`Profile ${name} already exists`);
+    }
+
+    await ensureDirectory(this.getDir(name));
+    await fs.writeFile(this.getOptionsFile(name), '{}\n', 'utf-8');
+  }
+
+  async use(name: string): Promise<void> {
+    if (!this.exists(name)) {
+      throw new Error(`Profile ${name} does not exist`);
+    }
+
+    await ensureDirectory(this.configDir);
+    await fs.writeFile(
+      path.join(this.configDir, ACTIVE_PROFILE_FILE),
+      `${name}\n`,
+      'utf-8',
+    );
+  }
+
+  async delete(name: string): Promise<void> {
+    if (name === DEFAULT_PROFILE) {
+      throw new Error('The default profile cannot be deleted');
+    }
+    if (!this.exists(name)) {
+      throw new Error(`Profile ${name} does not exist`);
+    }
+
+    const owner = this.getLockOwner(name);
+    if (owner !== null) {
+      throw new Error(`Profile ${name} is in use by process ${owner}`);
+    }
+
+    await fs.rm(this.getDir(name), { recursive: true, force: true });
+    if (this.resolve() === name) {
+      await fs.rm(path.join(this.configDir, ACTIVE_PROFILE_FILE), {
+        force: true,
+      });
+    }
+  }
+
+  // Take the profile's lock so concurrent runs cannot overwrite each other's
+  // session. A lock left behind by a process that no longer runs is taken
+  // over. Released automatically when the process exits.
+  async lock(name: string): Promise<void> {
+    const lockFile = path.join(this.getDir(name), LOCK_FILE);
+    await ensureDirectory(this.getDir(name));
+
+    // The PID is written first and the file linked into place, so another
+    // run never finds the lock empty (which would look stale)
+    const tempFile = `${lockFile}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, String(process.pid));
+    try {
+      for (;;) {
+        try {
+          await fs.link(tempFile, lockFile);
+          break;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+            throw error;
+          }
+
+          const content = await fs
+            .readFile(lockFile, 'utf-8')
+            .catch(() => null);
+          if (content === null) {
+            // Released in the meantime
+            continue;
+          }
+
+          const owner = getLivePid(content);
+          if (owner !== null) {
+            throw new Error(
+              `Profile ${name} is in use by another run (process ${owner})`,
+            );
+          }
+          await this.removeStaleLock(lockFile, content);
+        }
+      }
+    } finally {
+      await fs.rm(tempFile, { force: true });
+    }
+
+    this.lockFile = lockFile;
+    process.once('exit', () => this.unlock());
+    // Signals end the process without 'exit' unless it exits by itself
+    process.once('SIGINT', () => process.exit(130));
+    process.once('SIGTERM', () => process.exit(143));
+  }
+
+  unlock(): void {
+    if (!this.lockFile) {
+      return;
+    }
+
+    try {
+      unlinkSync(this.lockFile);
+    } catch (error) {
+      // Already gone
+    }
+    this.lockFile = null;
+  }
+
+  // Another run may find the same stale lock and take it over first. Moving
+  // the lock aside is atomic, so only one run gets each file; one that turns
+  // out to be a fresh lock is put back.
+  private async removeStaleLock(
+    lockFile: string,
+    staleContent: string,
+  ): Promise<void> {
+    const movedFile = `${lockFile}.${process.pid}.stale`;
+    try {
+      await fs.rename(lockFile, movedFile);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    if ((await fs.readFile(movedFile, 'utf-8')) !== staleContent) {
+      // link() fails rather than replace a lock taken in the meantime
+      await fs.link(movedFile, lockFile).catch(() => undefined);
+    }
+    await fs.rm(movedFile, { force: true });
+  }
+
+  // Process holding the profile's lock, or null when it is free or the
+  // holder has died
+  private getLockOwner(name: string): number | null {
+    const lockFile = path.join(this.getDir(name), LOCK_FILE);
+    if (!existsSync(lockFile)) {
+      return null;
+    }
+
+    return getLivePid(readFileSync(lockFile, 'utf-8'));
+  }
+}
+
+// The PID written to a lock file, if that process is still running
+function getLivePid(content: string): number | null {
+  const pid = Number(content.trim());
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return null;
+  }
+
+  try {
+    process.kill(pid, 0);
+    return pid;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM' ? pid : null;
+  }
+}
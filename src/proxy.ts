@@ -0,0 +1,226 @@
+import tls from 'tls';
+import {
+  Agent,
+  ProxyAgent,
+  fetch as undiciFetch,
+  type Dispatcher,
+  type RequestInit as UndiciRequestInit,
+} from 'undici';
+import { SocksClient } from 'socks';
+import type { ProxyConfig } from './types.js';
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+const DEFAULT_PORTS: Record<string, string> = {
+  'http:': '80',
+  'https:': '443',
+};
+
+// Routes requests through an HTTP(S) or SOCKS proxy, except for hosts on the
+// bypass list. The same settings are turned into Chromium launch arguments so
+// browser and HTTP requests leave the machine the same way.
+export class ProxyRouter {
+  private config: ProxyConfig;
+  private proxyUrl: URL;
+  private dispatcher: Dispatcher;
+
+  constructor(config: ProxyConfig) {
+    this.config = config;
+    this.proxyUrl = new URL(config.url);
+    this.dispatcher = this.proxyUrl.protocol.startsWith('socks')
+      ? createSocksAgent(this.proxyUrl)
+      : new ProxyAgent(config.url);
+  }
+
+  // --proxy wins over HTTPS_PROXY, which wins over ALL_PROXY; the bypass list
+  // falls back to NO_PROXY. Throws on an unusable proxy URL.
+  static resolveConfig(
+    proxy?: string,
+    bypass?: string,
+    env: NodeJS.ProcessEnv = process.env,
+  ): ProxyConfig | null {
+    const url =
+      proxy ||
+      env.HTTPS_PROXY ||
+      env.https_proxy ||
+      env.ALL_PROXY ||
+      env.all_proxy;
+    if (!url) {
+      return null;
+    }
+
+    // A bare host:port means an HTTP proxy
+    const proxyUrl = url.includes('://') ? url : `http://${url}`;
+    let protocol: string;
+    try {
+      protocol = new URL(proxyUrl).protocol;
+    } catch (error) {
+      throw new Error(`Invalid proxy URL: ${url}`);
+    }
+    if (!/^(https?|socks4|socks5h?):$/.test(protocol)) {
+      throw new Error(
+        `Unsupported proxy protocol ${protocol} (use http, https, socks4 or socks5)`,
+      );
+    }
+
+    if (process.versions.bun && protocol.startsWith('socks')) {
+      throw new Error(
+        'SOCKS proxies are only supported when running under Node.js',
+      );
+    }
+
+    return {
+      url: proxyUrl,
+      bypass: (bypass ?? env.NO_PROXY ?? env.no_proxy ?? '')
+        .split(/[,;\s]+/)
+        .map((entry) => entry.trim().toLowerCase())
+        .filter(Boolean),
+    };
+  }
+
+  fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    if (this.shouldBypass(url)) {
+      return fetch(url, init);
+    }
+
+    // Bun's fetch ignores undici dispatchers but has a proxy option of its own
+    if (process.versions.bun) {
+      return fetch(url, { ...init, proxy: this.config.url });
+    }
+
+    return fetchWithDispatcher(url, init, this.dispatcher);
+  }
+
+  // Bypass entries are host names (covering their subdomains), ".suffix",
+  // "host:port" or "*"
+  shouldBypass(url: string): boolean {
+    const { hostname, port, protocol } = new URL(url);
+    const host = hostname.toLowerCase();
+    // URL leaves the port empty when it is the scheme's default
+    const effectivePort = port || DEFAULT_PORTS[protocol] || '';
+
+    return this.config.bypass.some((entry) => {
+      if (entry === '*') {
+        return true;
+      }
+
+      const [entryHost, entryPort] = entry.split(':');
+      if (entryPort && entryPort !== effectivePort) {
+        return false;
+      }
+
+      const domain = entryHost.replace(/^\*?\./, '');
+      return host === domain || host.endsWith(`.${domain}`);
+    });
+  }
+
+  getBrowserArgs(): string[] {
+    const { protocol, hostname, port } = this.proxyUrl;
+    // Chromium has no socks5h scheme; it always resolves names via SOCKS5
+    const scheme = protocol.replace(':', '').replace(/^socks5h$/, 'socks5');
+    const args = [
+      `--proxy-server=${scheme}://${hostname}${port ? `:${port}` : ''}`,
+    ];
+
+    if (this.config.bypass.length > 0) {
+      args.push(
+        `--proxy-bypass-list=${this.config.bypass
+          .map((entry) => (entry.startsWith('.') ? `*${entry}` : entry))
+          .join(';')}`,
+      );
+    }
+
+    return args;
+  }
+
+  // Chromium takes proxy credentials per page (page.authenticate), and only
+  // for HTTP proxies
+  getBrowserCredentials(): { username: string; password: string } | null {
+    if (!this.proxyUrl.username || this.isSocks()) {
+      return null;
+    }
+
+    return {
+      username: decodeURIComponent(this.proxyUrl.username),
+      password: decodeURIComponent(this.proxyUrl.password),
+    };
+  }
+
+  // Chromium cannot authenticate to SOCKS proxies at all
+  supportsBrowser(): boolean {
+    return !(this.isSocks() && this.proxyUrl.username);
+  }
+
+  isSocks(): boolean {
+    return this.proxyUrl.protocol.startsWith('socks');
+  }
+
+  // Proxy URL without the password, for logs
+  describe(): string {
+    const url = new URL(this.proxyUrl);
+    if (url.password) {
+      url.password = '***';
+    }
+    return url.toString().replace(/\/$/, '');
+  }
+}
+
+// undici's fetch has its own Request and Response types; its responses are
+// rebuilt as global ones so callers see a single Response type
+async function fetchWithDispatcher(
+  url: string,
+  init: RequestInit,
+  dispatcher: Dispatcher,
+): Promise<Response> {
+  const response = await undiciFetch(url, {
+    ...(init as UndiciRequestInit),
+    dispatcher,
+  });
+
+  // Pages and images are read whole anyway
+  const body = NULL_BODY_STATUSES.includes(response.status)
+    ? null
+    : await response.arrayBuffer();
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: Array.from(response.headers),
+  });
+}
+
+// undici has no SOCKS support of its own, so connections are opened through
+// the proxy by hand and wrapped in TLS for https targets
+function createSocksAgent(proxyUrl: URL): Agent {
+  return new Agent({
+    connect: (options, callback) => {
+      const port =
+        Number(options.port) || (options.protocol === 'https:' ? 443 : 80);
+
+      SocksClient.createConnection({
+        proxy: {
+          host: proxyUrl.hostname,
+          port: Number(proxyUrl.port) || 1080,
+          type: proxyUrl.protocol === 'socks4:' ? 4 : 5,
+          userId: decodeURIComponent(proxyUrl.username) || undefined,
+          password: decodeURIComponent(proxyUrl.password) || undefined,
+        },
+        command: 'connect',
+        destination: { host: options.hostname, port },
+      }).then(
+        ({ socket }) => {
+          if (options.protocol !== 'https:') {
+            callback(null, socket);
+            return;
+          }
+
+          const tlsSocket = tls.connect({
+            socket,
+            servername: options.servername || options.hostname,
+          });
+          tlsSocket.once('secureConnect', () => callback(null, tlsSocket));
+          tlsSocket.once('error', (error) => callback(error, null));
+        },
+        (error) => callback(error, null),
+      );
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, expect, spyOn, test } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import { HtmlReaderWriter } from './reader.js';
+import type { StoryData } from './types.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cyoa-reader-'));
+  spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test('empty elements keep their place when the page sets innerHTML', async () => {
+  const story: StoryData = {
+    url: 'https://chyoa.com/chapter/example.1',
+    title: 'Example',
+    content:
+      '<p><a href="https://example.com/"></a>after</p><div></div><p>next</p>',
+    images: [],
+    choices: [],
+    metadata: { tags: [] },
+  } as unknown as StoryData;
+
+  const file = await new HtmlReaderWriter(dir, () => undefined).write([
+    { story, index: 0 },
+  ]);
+  const page = cheerio.load(await fs.readFile(path.join(dir, file), 'utf-8'));
+  const data = JSON.parse(page('#story-data').text());
+
+  // Parsed as HTML, as the browser does for innerHTML
+  const $ = cheerio.load(data.chapters[0].content, null, false);
+  expect($('a').text()).toBe('');
+  expect($('a').parent().text()).toBe('after');
+  expect($('div').contents().length).toBe(0);
+  expect($.root().children('p').length).toBe(2);
+});
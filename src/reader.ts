@@ -0,0 +1,334 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  encodeFilePath,
+  escapeHtml,
+  getChapterId,
+  type ExportChapter,
+  type ResolveImage,
+} from './formats.js';
+import { sanitizeChapterHtml } from './sanitize.js';
+import { getUrlKey, sanitizeFilename } from './utils.js';
+
+// What the page script gets to work with; chapters are referred to by id
+interface ReaderData {
+  title: string;
+  url: string;
+  start: string;
+  chapters: Array<{
+    id: string;
+    title: string;
+    url: string;
+    author?: string;
+    published?: string;
+    parent?: string;
+    content: string;
+    question?: string;
+    choices: Array<{ text: string; target?: string; url: string }>;
+  }>;
+}
+
+const STYLESHEET = `
+body { margin: 0; font-family: Georgia, serif; line-height: 1.6; color: #222; background: #fdfcf8; }
+header { position: sticky; top: 0; padding: 0.5em 1em; background: #f1ede3; border-bottom: 1px solid #ddd; }
+header h1 { margin: 0 0 0.3em; font-size: 1.2em; }
+button { font: inherit; font-size: 0.9em; cursor: pointer; }
+.breadcrumb { margin: 0.4em 0 0; padding: 0; list-style: none; font-size: 0.85em; }
+.breadcrumb li { display: inline; }
+.breadcrumb li + li::before { content: " › "; color: #888; }
+main, aside { max-width: 42em; margin: 0 auto; padding: 1em; }
+aside { border-bottom: 1px solid #ddd; }
+.chapter-meta { font-size: 0.85em; color: #666; }
+.question { margin-top: 2em; font-weight: bold; }
+.choices a.missing { color: #888; }
+img { max-width: 100%; }
+`;
+
+// Runs from file:// without a server: plain script, no modules or fetches.
+// The location hash holds the current chapter, so the browser's own history
+// (and the Back/Forward buttons) step through the chapters read.
+const SCRIPT = `
+(() => {
+  const story = JSON.parse(document.getElementById('story-data').textContent);
+  const chapters = new Map(story.chapters.map((chapter) => [chapter.id, chapter]));
+  const storageKey = 'cyoa-reader:' + story.url;
+  const $ = (id) => document.getElementById(id);
+
+  // localStorage can be unavailable for file:// pages in some browsers
+  const load = (key, fallback) => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey + ':' + key)) ?? fallback;
+    } catch (error) {
+      return fallback;
+    }
+  };
+  const store = (key, value) => {
+    try {
+      localStorage.setItem(storageKey + ':' + key, JSON.stringify(value));
+    } catch (error) {
+      // Bookmarks only last for this visit then
+    }
+  };
+
+  let bookmarks = load('bookmarks', []).filter((id) => chapters.has(id));
+
+  const link = (chapter) => {
+    const a = document.createElement('a');
+    a.href = '#' + chapter.id;
+    a.textContent = chapter.title;
+    return a;
+  };
+
+  // Path from the first downloaded ancestor to the chapter
+  const getPath = (chapter) => {
+    const path = [chapter];
+    while (path[0].parent && chapters.has(path[0].parent)) {
+      const parent = chapters.get(path[0].parent);
+      if (path.includes(parent)) {
+        break;
+      }
+      path.unshift(parent);
+    }
+    return path;
+  };
+
+  const renderBookmarks = () => {
+    const list = $('bookmarks');
+    list.replaceChildren();
+    if (bookmarks.length === 0) {
+      list.innerHTML = '<li>No bookmarks yet.</li>';
+    }
+    for (const id of bookmarks) {
+      const item = document.createElement('li');
+      const remove = document.createElement('button');
+      remove.type = 'button';
+      remove.textContent = 'Remove';
+      remove.addEventListener('click', () => {
+        bookmarks = bookmarks.filter((bookmark) => bookmark !== id);
+        store('bookmarks', bookmarks);
+        renderBookmarks();
+        updateBookmarkButton();
+      });
+      item.append(link(chapters.get(id)), ' ', remove);
+      list.append(item);
+    }
+  };
+
+  const updateBookmarkButton = () => {
+    const marked = bookmarks.includes(location.hash.slice(1));
+    $('bookmark').textContent = marked ? '★ Bookmarked' : '☆ Bookmark';
+  };
+
+  const render = () => {
+    const chapter = chapters.get(location.hash.slice(1));
+    if (!chapter) {
+      // Carry on where the last visit stopped
+      const last = load('last', null);
+      location.replace('#' + (chapters.has(last) ? last : story.start));
+      return;
+    }
+
+    const main = $('chapter');
+    main.replaceChildren();
+
+    const title = document.createElement('h2');
+    title.textContent = chapter.title;
+    const meta = document.createElement('p');
+    meta.className = 'chapter-meta';
+    const source = document.createElement('a');
+    source.href = chapter.url;
+    source.textContent = 'source';
+    const details = [
+      chapter.author && 'by ' + chapter.author,
+      chapter.published && 'published ' + chapter.published,
+    ].filter(Boolean);
+    meta.append(...details.map((detail) => detail + ' · '), source);
+    const content = document.createElement('div');
+    // Sanitized when the file was written
+    content.innerHTML = chapter.content;
+    main.append(title, meta, content);
+
+    if (chapter.question || chapter.choices.length > 0) {
+      const question = document.createElement('p');
+      question.className = 'question';
+      question.textContent = chapter.question || 'What happens next?';
+      const choices = document.createElement('ul');
+      choices.className = 'choices';
+      for (const choice of chapter.choices) {
+        const item = document.createElement('li');
+        const a = document.createElement('a');
+        a.textContent = choice.text;
+        if (choice.target) {
+          a.href = '#' + choice.target;
+        } else {
+          a.href = choice.url;
+          a.className = 'missing';
+          a.title = 'Not downloaded; opens CHYOA';
+        }
+        item.append(a);
+        choices.append(item);
+      }
+      main.append(question, choices);
+    }
+
+    const breadcrumb = $('breadcrumb');
+    breadcrumb.replaceChildren(
+      ...getPath(chapter).map((step) => {
+        const item = document.createElement('li');
+        item.append(step === chapter ? step.title : link(step));
+        return item;
+      }),
+    );
+
+    document.title = chapter.title + ' – ' + story.title;
+    store('last', chapter.id);
+    updateBookmarkButton();
+    window.scrollTo(0, 0);
+  };
+
+  const toggle = (panel) => {
+    $(panel).hidden = !$(panel).hidden;
+  };
+
+  for (const chapter of story.chapters) {
+    const item = document.createElement('li');
+    item.append(link(chapter));
+    $('contents').append(item);
+  }
+
+  $('back').addEventListener('click', () => history.back());
+  $('forward').addEventListener('click', () => history.forward());
+  $('restart').addEventListener('click', () => {
+    location.hash = story.start;
+  });
+  $('bookmark').addEventListener('click', () => {
+    const id = location.hash.slice(1);
+    bookmarks = bookmarks.includes(id)
+      ? bookmarks.filter((bookmark) => bookmark !== id)
+      : bookmarks.concat(id);
+    store('bookmarks', bookmarks);
+    renderBookmarks();
+    updateBookmarkButton();
+  });
+  $('show-contents').addEventListener('click', () => toggle('contents-panel'));
+  $('show-bookmarks').addEventListener('click', () => toggle('bookmarks-panel'));
+  window.addEventListener('hashchange', render);
+
+  renderBookmarks();
+  render();
+})();
+`;
+
+// Writes every chapter into one HTML page that plays the story like the
+// site does: choices link to the chapters, with history, a breadcrumb of
+// the path to the current chapter and bookmarks kept in localStorage.
+// Images come from the images directory next to it, or are inlined with
+// --embed-images for a single self-contained file.
+export class HtmlReaderWriter {
+  private outputDir: string;
+  private resolveImage: ResolveImage;
+
+  constructor(outputDir: string, resolveImage: ResolveImage) {
+    this.outputDir = outputDir;
+    this.resolveImage = resolveImage;
+  }
+
+  // Returns the name of the page, written to outputDir
+  async write(chapters: ExportChapter[]): Promise<string> {
+    const ids = new Map(
+      chapters.map(({ story, index }) => [
+        getUrlKey(story.url),
+        getChapterId(index),
+      ]),
+    );
+    const getTarget = (url: string) => ids.get(getUrlKey(url));
+
+    const mainTitle = chapters[0].story.title;
+    const data: ReaderData = {
+      title: mainTitle,
+      url: chapters[0].story.url,
+      start: getChapterId(chapters[0].index),
+      chapters: chapters.map(({ story, index }) => ({
+        id: getChapterId(index),
+        title: `Chapter ${index + 1}: ${story.title}`,
+        url: story.url,
+        author: story.metadata.author?.name,
+        published: story.metadata.publishedAt?.slice(0, 10),
+        parent: story.parentUrl ? getTarget(story.parentUrl) : undefined,
+        content: sanitizeChapterHtml(story.content, {
+          getLink: (url) => {
+            const target = getTarget(url);
+            return target ? `#${target}` : url;
+          },
+          getImage: (src) => this.getImageSrc(src),
+        }),
+        question: story.question,
+        choices: story.choices.map((choice) => ({
+          text: choice.text,
+          target: getTarget(choice.url),
+          url: choice.url,
+        })),
+      })),
+    };
+
+    const filename = `${sanitizeFilename(mainTitle)}.html`;
+    await fs.writeFile(
+      path.join(this.outputDir, filename),
+      renderPage(data),
+      'utf-8',
+    );
+    console.log(`Saved HTML reader: ${filename}`);
+    return filename;
+  }
+
+  // Embedded images are already data URLs; others must have been downloaded
+  private getImageSrc(src: string): string | undefined {
+    if (src.startsWith('data:')) {
+      return src;
+    }
+
+    const file = this.resolveImage(src);
+    return file && encodeFilePath(file);
+  }
+}
+
+function renderPage(data: ReaderData): string {
+  // "<" is escaped so chapter text can never close the script element
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(data.title)}</title>
+<style>${STYLESHEET}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(data.title)}</h1>
+  <nav>
+    <button type="button" id="back">← Back</button>
+    <button type="button" id="forward">Forward →</button>
+    <button type="button" id="restart">Start over</button>
+    <button type="button" id="bookmark">☆ Bookmark</button>
+    <button type="button" id="show-contents">Contents</button>
+    <button type="button" id="show-bookmarks">Bookmarks</button>
+  </nav>
+  <ol class="breadcrumb" id="breadcrumb"></ol>
+</header>
+<aside id="contents-panel" hidden>
+  <h2>Contents</h2>
+  <ol id="contents"></ol>
+</aside>
+<aside id="bookmarks-panel" hidden>
+  <h2>Bookmarks</h2>
+  <ul id="bookmarks"></ul>
+</aside>
+<main id="chapter"></main>
+<script type="application/json" id="story-data">${json}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
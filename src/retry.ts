@@ -0,0 +1,64 @@
+import { isTransientError, type ChyoaError } from './errors.js';
+import type { RetryPolicy } from './types.js';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+};
+
+// Run an operation, retrying transient failures with exponential backoff and
+// jitter. A server-provided Retry-After wins over the backoff, but no wait is
+// ever longer than maxDelay.
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  label: string,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.retries || !isTransientError(error)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, policy, error as ChyoaError);
+      console.warn(
+        `⚠️  ${(error as Error).message} Retrying ${label} in ${Math.round(delay / 1000)}s (attempt ${attempt + 2}/${policy.retries + 1})`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export function getRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  error?: ChyoaError,
+): number {
+  if (error?.retryAfter !== undefined) {
+    return Math.min(error.retryAfter, policy.maxDelay);
+  }
+
+  // Keep at least half of the backoff so retries never fire back-to-back
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return ceiling / 2 + (Math.random() * ceiling) / 2;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(
+  header: string | null | undefined,
+): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header.trim());
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,110 @@
+import * as cheerio from 'cheerio';
+import { makeAbsoluteUrl } from './utils.js';
+
+export interface SanitizeOptions {
+  // New href for a link to an absolute http(s) URL
+  getLink: (url: string) => string;
+  // New src for an image, or undefined to replace it with its alt text
+  getImage: (src: string) => string | undefined;
+  // Serialize as XHTML (EPUB) instead of HTML. The two differ for empty
+  // elements: an HTML parser reads "<div/>" as an open tag.
+  xhtml?: boolean;
+}
+
+// Elements kept from chapter HTML; anything else is replaced by its content
+const ALLOWED_ELEMENTS = new Set([
+  'p',
+  'br',
+  'hr',
+  'em',
+  'strong',
+  'b',
+  'i',
+  'u',
+  's',
+  'sub',
+  'sup',
+  'small',
+  'span',
+  'div',
+  'blockquote',
+  'pre',
+  'code',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'li',
+  'table',
+  'caption',
+  'thead',
+  'tbody',
+  'tfoot',
+  'tr',
+  'th',
+  'td',
+  'a',
+  'img',
+]);
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  img: ['src', 'alt'],
+  ol: ['start'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+};
+const DROPPED_ELEMENTS =
+  'script, style, iframe, object, embed, form, input, button, select, textarea, noscript';
+
+// Chapter HTML reduced to plain formatting, serialized as HTML or XHTML.
+// Scripts, styles and event handlers never survive, and links other than
+// http(s) are unwrapped.
+export function sanitizeChapterHtml(
+  html: string,
+  options: SanitizeOptions,
+): string {
+  const $ = cheerio.load(html || '', null, false);
+  $(DROPPED_ELEMENTS).remove();
+
+  // Innermost first, so unwrapped elements keep their cleaned children
+  for (const element of $('*').toArray().reverse()) {
+    const $element = $(element);
+    const tag = ($element.prop('tagName') || '').toLowerCase();
+
+    if (!ALLOWED_ELEMENTS.has(tag)) {
+      $element.replaceWith($element.contents());
+      continue;
+    }
+
+    const allowed = ALLOWED_ATTRIBUTES[tag] || [];
+    for (const name of Object.keys($element.attr() || {})) {
+      if (!allowed.includes(name)) {
+        $element.removeAttr(name);
+      }
+    }
+
+    if (tag === 'a') {
+      const href = makeAbsoluteUrl($element.attr('href') || '');
+      if (!/^https?:/i.test(href)) {
+        $element.replaceWith($element.contents());
+      } else {
+        $element.attr('href', options.getLink(href));
+      }
+    } else if (tag === 'img') {
+      const src = $element.attr('src');
+      const newSrc = src ? options.getImage(src) : undefined;
+      if (newSrc) {
+        $element.attr('src', newSrc);
+        $element.attr('alt', $element.attr('alt') || '');
+      } else {
+        $element.replaceWith($element.attr('alt') || '');
+      }
+    }
+  }
+
+  return (options.xhtml ? $.xml() : $.html()).trim();
+}
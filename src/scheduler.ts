@@ -0,0 +1,80 @@
+// Shared politeness limit for every request the tool makes: a token bucket
+// refilled at `requestsPerMinute`, plus a cap on requests in flight at once.
+export class RequestScheduler {
+  private requestsPerMinute: number;
+  private maxConcurrency: number;
+  private burst: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private slotWaiters: Array<() => void> = [];
+  private tokenQueue: Promise<void> = Promise.resolve();
+
+  constructor(requestsPerMinute: number, maxConcurrency: number, burst = 1) {
+    this.requestsPerMinute = requestsPerMinute;
+    this.maxConcurrency = maxConcurrency;
+    this.burst = burst;
+    this.tokens = burst;
+  }
+
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+    try {
+      await this.takeToken();
+      return await task();
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  getMaxConcurrency(): number {
+    return this.maxConcurrency;
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.inFlight < this.maxConcurrency) {
+      this.inFlight++;
+      return;
+    }
+
+    // The releasing task hands its slot over directly
+    await new Promise<void>((resolve) => this.slotWaiters.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.slotWaiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.inFlight--;
+    }
+  }
+
+  // Tokens are handed out in FIFO order so waiting requests are not starved
+  private takeToken(): Promise<void> {
+    const turn = this.tokenQueue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        const rate = this.requestsPerMinute / 60000;
+        await new Promise((resolve) =>
+          setTimeout(resolve, (1 - this.tokens) / rate),
+        );
+        this.refill();
+      }
+      this.tokens = Math.max(0, this.tokens - 1);
+    });
+
+    this.tokenQueue = turn;
+    return turn;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const rate = this.requestsPerMinute / 60000;
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + (now - this.lastRefill) * rate,
+    );
+    this.lastRefill = now;
+  }
+}
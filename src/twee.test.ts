@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, expect, spyOn, test } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TweeWriter } from './twee.js';
+import type { StoryData } from './types.js';
+
+let dir: string;
+
+const chapter = (id: number, content: string): StoryData =>
+  ({
+    url: `https://chyoa.com/chapter/example.${id}`,
+    title: `Chapter ${id}`,
+    content,
+    images: [],
+    choices: [],
+    metadata: { tags: [] },
+  }) as unknown as StoryData;
+
+// The passage of the first chapter, without its header and source line
+const writePassage = async (content: string): Promise<string> => {
+  const file = await new TweeWriter(dir, () => undefined).write([
+    { story: chapter(1, content), index: 0 },
+    { story: chapter(2, ''), index: 1 },
+  ]);
+  const twee = await fs.readFile(path.join(dir, file), 'utf-8');
+  return twee.split('\n\n\n')[2].split('\n').slice(2).join('\n');
+};
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cyoa-twee-'));
+  spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test('chapter text is never read as Harlowe markup', async () => {
+  const passage = await writePassage(
+    "<p>*bold* //italic// ''strong'' $name (print: 1) [[Trap]] a &lt; b</p>",
+  );
+
+  expect(passage).toStartWith('<p>');
+  expect(passage).toEndWith('</p>');
+  const text = passage.slice('<p>'.length, -'</p>'.length);
+  expect(text).not.toMatch(/[*/'$()[\]<>]/);
+  expect(text).toContain('&#42;bold&#42;');
+  expect(text).toContain('&#60; b');
+});
+
+test('links to downloaded chapters become passage links', async () => {
+  const passage = await writePassage(
+    '<p><a href="https://chyoa.com/chapter/example.2">Go (now)</a> or <a href="https://chyoa.com/chapter/example.2"></a></p>',
+  );
+
+  expect(passage).toBe(
+    '<p>[[Go &#40;now&#41;->Chapter 2]] or [[Chapter 2->Chapter 2]]</p>',
+  );
+  expect(passage).not.toContain('twee-passage:');
+});
@@ -0,0 +1,221 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import {
+  encodeFilePath,
+  escapeHtml,
+  getStoryUuid,
+  type ExportChapter,
+  type ResolveImage,
+} from './formats.js';
+import { sanitizeChapterHtml } from './sanitize.js';
+import type { StoryData } from './types.js';
+import { getUrlKey, sanitizeFilename } from './utils.js';
+
+// Story format Twine opens the result with; passages hold HTML, which it
+// renders as is
+const STORY_FORMAT = 'Harlowe';
+const STORY_FORMAT_VERSION = '3.3.9';
+// Layout of the passages on Twine's story map: one row per choice level
+const GRID_SIZE = 150;
+// Links in the chapter text to downloaded chapters get this href from the
+// sanitizer and are turned into Twine links once it has serialized them
+const PASSAGE_HREF = 'twee-passage:';
+const PASSAGE_ANCHOR =
+  /<a href="twee-passage:(\d+)"(?:\s*\/>|>([\s\S]*?)<\/a>)/g;
+// A tag in serialized HTML; attribute values are double-quoted, so a ">"
+// inside one does not end it
+const TAG_PATTERN = /(<[^>"]*(?:"[^"]*"[^>"]*)*>)/;
+
+// Writes the chapters as a Twee 3 story: one passage per chapter, named
+// after it, with the downloaded choices as Twine links, so branches show up
+// on the story map. Images point at the images directory next to the file.
+export class TweeWriter {
+  private outputDir: string;
+  private resolveImage: ResolveImage;
+
+  constructor(outputDir: string, resolveImage: ResolveImage) {
+    this.outputDir = outputDir;
+    this.resolveImage = resolveImage;
+  }
+
+  // Returns the name of the .twee file, written to outputDir
+  async write(chapters: ExportChapter[]): Promise<string> {
+    const names = getPassageNames(chapters);
+    const passages = new Map(
+      chapters.map(({ story }, i) => [getUrlKey(story.url), i]),
+    );
+    const getPassage = (url: string) => passages.get(getUrlKey(url));
+    const positions = getPositions(chapters);
+    const mainTitle = chapters[0].story.title;
+
+    const storyData = {
+      // Stays the same across exports, so Twine treats them as one story
+      ifid: getStoryUuid(chapters[0].story.url).toUpperCase(),
+      format: STORY_FORMAT,
+      'format-version': STORY_FORMAT_VERSION,
+      start: names[0],
+      zoom: 1,
+    };
+
+    const passageTexts = chapters.map(({ story }, i) => {
+      const [x, y] = positions[i];
+      const metadata = JSON.stringify({
+        position: `${x},${y}`,
+        size: '100,100',
+      });
+
+      return `:: ${names[i]} ${metadata}\n${this.renderPassage(story, names, getPassage)}`;
+    });
+
+    const content = [
+      `:: StoryTitle\n${mainTitle}`,
+      `:: StoryData\n${JSON.stringify(storyData, null, 2)}`,
+      ...passageTexts,
+    ].join('\n\n\n');
+
+    const filename = `${sanitizeFilename(mainTitle)}.twee`;
+    await fs.writeFile(
+      path.join(this.outputDir, filename),
+      `${content}\n`,
+      'utf-8',
+    );
+    console.log(`Saved Twee story: ${filename} (${chapters.length} passages)`);
+    return filename;
+  }
+
+  private renderPassage(
+    story: StoryData,
+    names: string[],
+    getPassage: (url: string) => number | undefined,
+  ): string {
+    const meta = story.metadata.author
+      ? `by ${escapeInline(story.metadata.author.name)} · `
+      : '';
+    const html = sanitizeChapterHtml(story.content, {
+      getLink: (url) => {
+        const passage = getPassage(url);
+        return passage === undefined ? url : `${PASSAGE_HREF}${passage}`;
+      },
+      getImage: (src) => {
+        const file = this.resolveImage(src);
+        return file && encodeFilePath(file);
+      },
+    });
+    const content = escapeText(html).replace(
+      PASSAGE_ANCHOR,
+      (_, passage: string, text = '') =>
+        toLink(decodeText(text), names[Number(passage)]),
+    );
+    const lines = [
+      `<p class="chapter-meta">${meta}<a href="${escapeHtml(story.url)}">source</a></p>`,
+      content,
+    ];
+
+    if (story.question || story.choices.length > 0) {
+      lines.push('', escapeInline(story.question || 'What happens next?'));
+    }
+    for (const choice of story.choices) {
+      const passage = getPassage(choice.url);
+      // Choices that were not downloaded lead back to CHYOA
+      lines.push(
+        passage !== undefined
+          ? toLink(choice.text, names[passage])
+          : `<a href="${escapeHtml(choice.url)}">${escapeInline(choice.text)}</a>`,
+      );
+    }
+
+    // A line starting with "::" would begin a new passage
+    return lines.join('\n').replace(/^::/gm, '\\::');
+  }
+}
+
+// Unique passage names from the chapter titles, free of the characters that
+// end a link or start the tags and metadata of a passage header
+function getPassageNames(chapters: ExportChapter[]): string[] {
+  const names: string[] = [];
+  const used = new Set(['StoryTitle', 'StoryData']);
+
+  for (const { story, index } of chapters) {
+    const base = toPassageName(story.title) || `Chapter ${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name); n++) {
+      name = `${base} (${n})`;
+    }
+    used.add(name);
+    names.push(name);
+  }
+
+  return names;
+}
+
+// Twine stores where each passage sits on the story map; chapters are placed
+// one row per level below their downloaded parent, in download order
+function getPositions(chapters: ExportChapter[]): Array<[number, number]> {
+  const keys = new Set(chapters.map(({ story }) => getUrlKey(story.url)));
+  const parents = new Map(
+    chapters.map(({ story }) => [getUrlKey(story.url), story.parentUrl]),
+  );
+  const getDepth = (key: string, seen = new Set<string>()): number => {
+    const parentUrl = parents.get(key);
+    const parentKey = parentUrl ? getUrlKey(parentUrl) : undefined;
+    if (!parentKey || !keys.has(parentKey) || seen.has(parentKey)) {
+      return 0;
+    }
+    seen.add(key);
+    return getDepth(parentKey, seen) + 1;
+  };
+
+  const columns = new Map<number, number>();
+  return chapters.map(({ story }) => {
+    const depth = getDepth(getUrlKey(story.url));
+    const column = columns.get(depth) ?? 0;
+    columns.set(depth, column + 1);
+    return [GRID_SIZE * (column + 1), GRID_SIZE * (depth + 1)];
+  });
+}
+
+// Passage names are used as they are in headers and link targets, so the
+// characters that would end them early are dropped
+function toPassageName(text: string): string {
+  return text
+    .replace(/->|<-/g, '-')
+    .replace(/[[\]{}|\\]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toLink(text: string, passage: string): string {
+  return `[[${escapeInline(text) || escapeInline(passage)}->${passage}]]`;
+}
+
+// Passage text is Harlowe markup, even inside HTML: everything other than
+// letters, digits and plain punctuation is written as a character
+// reference, so text shows as it is and can never end a link (]], ->),
+// open a tag, call a macro or break a line
+function escapeMarkup(text: string): string {
+  return text.replace(
+    /[^\p{L}\p{N} .,!?:;"-]/gu,
+    (char) => `&#${char.codePointAt(0)};`,
+  );
+}
+
+// Text kept on one line: link text, questions and choices
+function escapeInline(text: string): string {
+  return escapeMarkup(text.replace(/\s+/g, ' ').trim());
+}
+
+// Escape the text between the tags of serialized HTML, leaving the tags
+function escapeText(html: string): string {
+  return html
+    .split(TAG_PATTERN)
+    .map((part, i) =>
+      i % 2 === 1 || !part ? part : escapeMarkup(decodeText(part)),
+    )
+    .join('');
+}
+
+// Plain text of an HTML fragment, with character references resolved
+function decodeText(html: string): string {
+  return cheerio.load(html, null, false).text();
+}
@@ -1,15 +1,83 @@
+export type ChyoaUrlKind = 'chapter' | 'story' | 'user';
+
+export interface ChyoaUrl {
+  kind: ChyoaUrlKind;
+  slug: string; // URL slug; the user name for user URLs
+  id?: string; // Numeric ID of chapters and stories
+  url: string; // Canonical URL
+}
+
+export interface StoryChoice {
+  text: string;
+  url: string;
+  chapterId?: string;
+}
+
+export interface ChapterAuthor {
+  name: string;
+  profileUrl?: string;
+}
+
+export interface ChapterMetadata {
+  chapterId?: string;
+  storyId?: string;
+  author?: ChapterAuthor;
+  publishedAt?: string;
+  updatedAt?: string;
+  tags: string[];
+  views?: number;
+  likes?: number;
+  wordCount: number;
+}
+
 export interface StoryData {
   url: string;
   title: string;
   content: string;
   images: string[];
   parentUrl?: string;
+  question?: string;
+  choices: StoryChoice[];
+  metadata: ChapterMetadata;
+}
+
+export interface StoryIndex {
+  url: string;
+  title: string;
+  introUrl: string;
+  chapterUrls: string[];
+}
+
+export interface UserListing {
+  name: string;
+  profileUrl: string;
+  storyUrls: string[];
+  chapterUrls: string[];
+}
+
+export interface DownloadResult {
+  url: string;
+  title: string;
+  outputDir: string;
+  mainFile?: string;
+}
+
+export interface SyncSummary {
+  title: string;
+  added: string[];
+  updated: string[];
+  failed: string[]; // Chapters that could not be checked (titles) or new ones that could not be loaded (URLs)
+  unchanged: number;
 }
 
 export interface Chapter {
+  url: string;
   title: string;
   author?: string;
+  metadata?: ChapterMetadata;
   content: string;
+  question?: string;
+  choices?: StoryChoice[];
   children?: Chapter[];
 }
 
@@ -17,37 +85,191 @@ export interface AuthCredentials {
   username?: string;
   password?: string;
   sessionCookie?: string;
+  cookies?: StoredCookie[]; // imported with --cookies-file
+}
+
+// 'interactive' means the site wants a CAPTCHA or two-factor code
+export type PasswordLoginResult = 'success' | 'failed' | 'interactive';
+
+export interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires?: number; // ms since epoch; session cookie when absent
+  secure: boolean;
+  httpOnly: boolean;
+  hostOnly: boolean; // Only sent to exactly this domain, not its subdomains
 }
 
 export interface SessionData {
   cookies: string;
+  jar?: StoredCookie[]; // Scoped cookies, with their own expiry times
+  account?: string;
   timestamp: number;
 }
 
+// A session stored encrypted (see encryption.ts); all binary values base64
+export interface EncryptedData {
+  cipher: 'aes-256-gcm';
+  kdf: { name: 'scrypt'; N: number; r: number; p: number; salt: string };
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// encrypt: write the session encrypted (an encrypted one always stays so).
+// getPassphrase is only asked once a passphrase is actually needed.
+export interface SessionEncryption {
+  encrypt: boolean;
+  getPassphrase: () => Promise<string>;
+}
+
+export interface CacheEntryMeta {
+  url: string;
+  fetchedAt: number;
+  size: number;
+}
+
+export type DownloadStatus = 'pending' | 'done' | 'failed';
+
+export interface ImageRecord {
+  url: string;
+  file?: string;
+  status: DownloadStatus;
+}
+
+export interface ManifestChapter {
+  url: string;
+  title: string;
+  file?: string;
+  status: DownloadStatus;
+  images: ImageRecord[];
+  storyFile: string; // Snapshot of the chapter's StoryData, next to the manifest
+  updatedAt: number;
+}
+
+// Markdown covers the per-chapter, --single-file and --json-file outputs
+export type ExportFormat = 'markdown' | 'epub' | 'html' | 'twee';
+
+export interface ManifestOptions {
+  format: ExportFormat;
+  convertToWebp: boolean;
+  embedImages: boolean;
+  singleFile: boolean;
+  jsonFile: boolean;
+  descendants: boolean;
+  maxDepth: number | null;
+}
+
+export interface StoryManifestData {
+  version: number;
+  storyUrl: string;
+  title: string;
+  options: ManifestOptions;
+  outputFile?: string;
+  discoveryComplete: boolean; // False while chapters are still being found
+  createdAt: number;
+  updatedAt: number;
+  chapters: ManifestChapter[];
+}
+
+// Chapters recorded while discovering a story; fetches are answered from it
+// so a resumed discovery does not load the same pages again
+export interface StoryStore {
+  getStory(url: string): StoryData | undefined;
+  addStory(story: StoryData): void;
+}
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+export interface ProxyConfig {
+  url: string; // http(s)://, socks4:// or socks5(h):// with optional user:pass@
+  bypass: string[]; // Hosts reached directly
+}
+
 export interface DownloaderConfig {
   credentials: AuthCredentials;
+  sessionFile: string; // session store of the profile in use
+  sessionEncryption: SessionEncryption;
   baseOutputDir: string;
   usePuppeteer: boolean;
+  hybrid: boolean;
+  format: ExportFormat;
   convertToWebp: boolean;
   embedImages: boolean;
   singleFile: boolean;
   jsonFile: boolean;
+  descendants: boolean;
+  maxDepth?: number;
+  useCache: boolean;
+  cacheDir: string;
+  cacheTtl: number;
+  offline: boolean;
+  resume: boolean;
+  retryPolicy: RetryPolicy;
+  requestsPerMinute: number;
+  maxConcurrency: number;
+  proxy: ProxyConfig | null;
+  challengeTimeout: number;
 }
 
+export type SessionAction =
+  | 'status'
+  | 'export'
+  | 'import'
+  | 'refresh'
+  | 'encrypt'
+  | 'decrypt';
+export type ProfileAction = 'list' | 'create' | 'use' | 'delete';
+
 export interface CliArguments {
+  _: Array<string | number>;
   url?: string;
+  dir?: string;
+  user?: string;
   username?: string;
   password?: string;
+  'password-stdin': boolean;
   cookie?: string;
+  'cookies-file'?: string;
   output: string;
   test: boolean;
   'test-cookies': boolean;
   'clear-session': boolean;
+  'encrypt-session': boolean;
+  action?: SessionAction | ProfileAction;
+  file?: string;
+  name?: string;
+  profile?: string;
   'no-puppeteer': boolean;
   'no-webp': boolean;
+  puppeteer?: boolean;
+  webp?: boolean;
+  hybrid: boolean;
+  format: ExportFormat;
   'embed-images': boolean;
   'single-file': boolean;
   'json-file': boolean;
+  descendants: boolean;
+  'max-depth'?: number;
+  cache: boolean;
+  'cache-dir'?: string;
+  'cache-ttl': number;
+  offline: boolean;
+  resume: boolean;
+  retries: number;
+  'retry-delay': number;
+  'retry-max-delay': number;
+  'rate-limit': number;
+  concurrency: number;
+  proxy?: string;
+  'proxy-bypass'?: string;
+  'challenge-timeout': number;
   help?: boolean;
   h?: boolean;
 }
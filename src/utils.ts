@@ -1,11 +1,20 @@
 import { promises as fs } from 'fs';
+import os from 'os';
 import path from 'path';
+import type { ChyoaUrl, ChyoaUrlKind } from './types.js';
 
 // Constants
 export const BASE_URL = 'https://chyoa.com';
 export const DEFAULT_OUTPUT_DIR = 'downloaded_stories';
 export const IMAGES_DIR = 'images';
-export const SESSION_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+export const SESSION_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours, for sessions without cookie expiry times
+export const CONFIG_DIR = path.join(os.homedir(), '.config', 'cyoa-cli');
+export const DEFAULT_CACHE_DIR = path.join(CONFIG_DIR, 'cache');
+export const DEFAULT_CACHE_TTL_HOURS = 24;
+export const DEFAULT_REQUESTS_PER_MINUTE = 30;
+export const DEFAULT_MAX_CONCURRENCY = 2;
+export const DEFAULT_CHALLENGE_TIMEOUT_SECONDS = 30;
+export const MANUAL_CHALLENGE_TIMEOUT = 5 * 60 * 1000; // 5 minutes to solve a challenge by hand
 
 export const DEFAULT_USER_AGENT =
   'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
@@ -20,6 +29,33 @@ export const PUPPETEER_ARGS = [
   '--disable-gpu',
 ];
 
+// Browser requests that never contribute to a download
+export const BLOCKED_RESOURCE_TYPES = [
+  'font',
+  'stylesheet',
+  'media',
+  'manifest',
+  'texttrack',
+  'websocket',
+  'eventsource',
+];
+
+export const BLOCKED_RESOURCE_HOSTS = [
+  'google-analytics.com',
+  'googletagmanager.com',
+  'googlesyndication.com',
+  'doubleclick.net',
+  'adservice.google.com',
+  'facebook.net',
+  'scorecardresearch.com',
+  'quantserve.com',
+  'hotjar.com',
+  'exoclick.com',
+  'juicyads.com',
+  'trafficjunky.net',
+  'adsco.re',
+];
+
 // String utilities
 export function sanitizeTitle(title: string): string {
   return title.replace(/[^\w\s-]/g, '').trim();
@@ -43,6 +79,39 @@ export function cleanHtmlEntities(text: string): string {
     .trim();
 }
 
+export function countWords(text: string): number {
+  const words = text.trim().split(/\s+/);
+  return words[0] === '' ? 0 : words.length;
+}
+
+// Parse counters such as "1,234" or "1.2k" as shown on CHYOA pages
+export function parseCount(value: string): number | undefined {
+  const match = value
+    .trim()
+    .replace(/,/g, '')
+    .match(/^(\d+(?:\.\d+)?)\s*([km])?$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const multiplier =
+    match[2]?.toLowerCase() === 'm'
+      ? 1_000_000
+      : match[2]?.toLowerCase() === 'k'
+        ? 1_000
+        : 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+export function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
 // File system utilities
 export async function ensureDirectory(dirPath: string): Promise<void> {
   await fs.mkdir(dirPath, { recursive: true });
@@ -66,16 +135,130 @@ export function makeAbsoluteUrl(
   url: string,
   baseUrl: string = BASE_URL,
 ): string {
-  if (url.startsWith('http')) {
+  try {
+    return normalizeUrl(new URL(url, `${baseUrl}/`).toString());
+  } catch (error) {
     return url;
   }
-  if (url.startsWith('//')) {
-    return `https:${url}`;
+}
+
+// Understands chapter, story and user URLs however they were written
+// (relative, "www.", http, query string, fragment, trailing slash or a story
+// sub-page such as /table-of-contents) and returns their canonical form
+export function parseChyoaUrl(input: string): ChyoaUrl | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(input.trim(), `${BASE_URL}/`);
+  } catch (error) {
+    return null;
+  }
+  if (!isChyoaHost(parsed.hostname)) {
+    return null;
+  }
+
+  // Slugs may contain dots themselves; the ID is the last numeric part
+  const match = parsed.pathname.match(/^\/(chapter|story)\/([^/]*)\.(\d+)/);
+  if (match) {
+    const kind = match[1] as ChyoaUrlKind;
+    return {
+      kind,
+      slug: match[2],
+      id: match[3],
+      url: `${BASE_URL}/${kind}/${match[2]}.${match[3]}`,
+    };
+  }
+
+  const userMatch = parsed.pathname.match(/^\/user\/([^/]+)/);
+  if (userMatch) {
+    let name: string;
+    try {
+      name = decodeURIComponent(userMatch[1]);
+    } catch (error) {
+      // A stray "%" that is no escape; not a page CHYOA would have linked to
+      return null;
+    }
+    return {
+      kind: 'user',
+      slug: name,
+      url: `${BASE_URL}/user/${encodeURIComponent(name)}`,
+    };
+  }
+
+  return null;
+}
+
+// Canonical spelling of a URL: no fragment and no trailing slash; CHYOA URLs
+// also lose "www." and use https, and chapter URLs drop their query string
+export function normalizeUrl(url: string): string {
+  const chyoaUrl = parseChyoaUrl(url);
+  if (chyoaUrl?.kind === 'chapter') {
+    return chyoaUrl.url;
   }
-  if (url.startsWith('/')) {
-    return `${baseUrl}${url}`;
+
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    if (isChyoaHost(parsed.hostname)) {
+      parsed.protocol = 'https:';
+      parsed.hostname = parsed.hostname.replace(/^www\./, '');
+    }
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+    return parsed.toString();
+  } catch (error) {
+    return url;
+  }
+}
+
+function isChyoaHost(hostname: string): boolean {
+  return hostname.replace(/^www\./, '') === new URL(BASE_URL).hostname;
+}
+
+// Identity of a URL for deduplication and cycle detection: chapters and
+// stories by numeric ID (the slug changes with the title), anything else by
+// its normalized URL
+export function getUrlKey(url: string): string {
+  const chyoaUrl = parseChyoaUrl(url);
+  if (chyoaUrl?.kind === 'chapter' || chyoaUrl?.kind === 'story') {
+    // Story sub-pages keep their own identity
+    const isSubPage = normalizeUrl(url) !== chyoaUrl.url;
+    return isSubPage ? normalizeUrl(url) : `${chyoaUrl.kind}:${chyoaUrl.id}`;
   }
-  return `${baseUrl}/${url}`;
+  return normalizeUrl(url);
+}
+
+// Expand a bare chapter ID ("123456") or "chapter:123456" into a chapter URL.
+// CHYOA resolves chapters by ID, so the slug is only a placeholder.
+export function expandChapterShorthand(input: string): string {
+  const match = input.trim().match(/^(?:chapter:)?(\d+)$/i);
+  return match ? `${BASE_URL}/chapter/chapter.${match[1]}` : input;
+}
+
+export function getChapterIdFromUrl(url: string): string | undefined {
+  const chyoaUrl = parseChyoaUrl(url);
+  return chyoaUrl?.kind === 'chapter' ? chyoaUrl.id : undefined;
+}
+
+export function isStoryIndexUrl(url: string): boolean {
+  return parseChyoaUrl(url)?.kind === 'story';
+}
+
+// Accepts a user name or any URL pointing at (a page below) a user profile
+export function getUserProfileUrl(user: string): string {
+  const chyoaUrl = parseChyoaUrl(user);
+  return chyoaUrl?.kind === 'user'
+    ? chyoaUrl.url
+    : `${BASE_URL}/user/${encodeURIComponent(user.trim())}`;
+}
+
+// Strip sub-pages such as /table-of-contents from a story URL
+export function getStoryBaseUrl(url: string): string {
+  const chyoaUrl = parseChyoaUrl(url);
+  return chyoaUrl?.kind === 'story' ? chyoaUrl.url : url;
+}
+
+export function getStoryIdFromUrl(url: string): string | undefined {
+  const chyoaUrl = parseChyoaUrl(url);
+  return chyoaUrl?.kind === 'story' ? chyoaUrl.id : undefined;
 }
 
 export function getFilenameFromUrl(